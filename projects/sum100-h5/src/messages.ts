@@ -0,0 +1,54 @@
+// 各页面共用的提示文字
+
+import {ExpectedToken, ParseErrorCode} from 'calculate100';
+import {ParseErrorDetail} from './protocol';
+
+// 解析错误说明
+const parseErrorMessages: Record<ParseErrorCode, string> = {
+    'unexpected-character': '无法识别的字符',
+    'unexpected-token': '此处不能出现该符号',
+    'unexpected-end': '表达式不完整',
+    'missing-equals': '缺少等号',
+    'multiple-equals': '只能有一个等号',
+    'missing-right-side': '等号右侧缺少内容',
+    'trailing-tokens': '有多余的内容',
+    'unclosed-paren': '括号没有闭合',
+    'invalid-number': '无效的数字',
+    'invalid-target': '无效的目标值',
+    'braces-on-right': '花括号只能出现在等号左侧',
+    'nested-braces': '花括号不能嵌套',
+    'unmatched-brace': '多余的右花括号',
+    'unclosed-brace': '花括号没有闭合'
+};
+
+const expectedTokenLabels: Record<ExpectedToken, string> = {
+    'number': '数字',
+    'operator': '运算符',
+    '-': '负号',
+    '!': '阶乘',
+    '√': '开方',
+    '(': '左括号',
+    ')': '右括号',
+    '=': '等号',
+    'end': '输入结尾'
+};
+
+// 运算的名称, 记法与 operatorSet 相同
+export const operatorLabels: Record<string, string> = {
+    '+': '加法',
+    '-': '减法',
+    '*': '乘法',
+    '/': '除法',
+    '%': '取模',
+    '^': '幂运算',
+    '!': '阶乘',
+    '√': '开方',
+    'neg': '取负',
+    'concat': '数字连接'
+};
+
+export function describeParseError(detail: ParseErrorDetail): string {
+    const message = parseErrorMessages[detail.code];
+    if (detail.expected.length === 0) return message;
+    return `${message}，此处应为：${detail.expected.map(token => expectedTokenLabels[token]).join('、')}`;
+}
@@ -0,0 +1,62 @@
+// 页面与求解器 Worker 之间的消息格式
+
+import {ParseError, SolutionResult, SolverConfig, SolverReport, validateSolverConfig} from 'calculate100';
+
+// 消息格式版本, 不兼容的修改需要递增
+export const PROTOCOL_VERSION = 3;
+
+// 可以跨线程传递的配置, 函数无法结构化克隆
+export type WorkerSolverConfig = Omit<SolverConfig, 'cost'>;
+
+// 输入解析失败时附带的错误码与出错片段, 页面据此标出输入中的错误
+export type ParseErrorDetail = Pick<ParseError, 'code' | 'start' | 'end' | 'expected'>;
+
+// 页面发给 Worker 的消息; runId 由页面为每次求解分配, Worker 的响应原样带回
+export type WorkerMessage =
+    | { version: typeof PROTOCOL_VERSION; type: 'solve'; runId: number; input: string; config: WorkerSolverConfig }
+    | { version: typeof PROTOCOL_VERSION; type: 'cancel' };
+
+// Worker 发回页面的消息; 多个 Worker 的 report 由页面用 ReportMerger 合并
+// 页面只处理 runId 与当前求解相同的消息, 已停止的求解迟到的消息被丢弃; 无法解析的消息以 runId 0 回复错误
+export type WorkerResponse =
+    | { version: typeof PROTOCOL_VERSION; type: 'report'; runId: number; report: SolverReport }
+    | { version: typeof PROTOCOL_VERSION; type: 'complete'; runId: number; result: SolutionResult }
+    | { version: typeof PROTOCOL_VERSION; type: 'error'; runId: number; error: string; parseError?: ParseErrorDetail };
+
+// 各消息允许的字段
+const MESSAGE_KEYS: Record<WorkerMessage['type'], string[]> = {
+    solve: ['version', 'type', 'runId', 'input', 'config'],
+    cancel: ['version', 'type'],
+};
+
+// 校验收到的消息, 版本不符或含有未知字段时抛出异常
+export function parseWorkerMessage(data: unknown): WorkerMessage {
+    if (typeof data !== 'object' || data === null) {
+        throw new Error('Invalid message');
+    }
+    const message = data as Record<string, unknown>;
+    if (message.version !== PROTOCOL_VERSION) {
+        throw new Error(`Unsupported protocol version: ${message.version}`);
+    }
+    const type = message.type as WorkerMessage['type'];
+    if (!Object.prototype.hasOwnProperty.call(MESSAGE_KEYS, type)) {
+        throw new Error(`Unknown message type: ${message.type}`);
+    }
+    const unknown = Object.keys(message).filter(key => !MESSAGE_KEYS[type].includes(key));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown message field: ${unknown.join(', ')}`);
+    }
+    if (type === 'solve') {
+        if (!Number.isInteger(message.runId)) {
+            throw new Error('Missing runId for solve command');
+        }
+        if (typeof message.input !== 'string') {
+            throw new Error('Missing input for solve command');
+        }
+        if (typeof message.config !== 'object' || message.config === null) {
+            throw new Error('Missing config for solve command');
+        }
+        validateSolverConfig(message.config);
+    }
+    return message as WorkerMessage;
+}
@@ -5,6 +5,11 @@ const routes = [
     path: '/',
     name: 'Playground',
     component: () => import('../views/Playground.vue')
+  },
+  {
+    path: '/challenge',
+    name: 'Challenge',
+    component: () => import('../views/Challenge.vue')
   }
 ]
 
@@ -1,144 +1,82 @@
 // Sum-100 求解器 Worker
 
-import {parseInput, SolutionResult, solve, SolverConfig, SolverReport, solving} from 'calculate100';
+import {ParseError, parseInput, Solver, SolverReport} from 'calculate100';
+import {parseWorkerMessage, PROTOCOL_VERSION, WorkerResponse, WorkerSolverConfig} from './protocol';
 
-// Worker消息类型
-interface WorkerMessage {
-    type: 'solve' | 'cancel';
-    payload?: { input: string; } & Partial<SolverConfig>;
-}
+let currentController: AbortController | null = null;
 
-// Worker响应类型
-interface WorkerResponse {
-    type: 'progress' | 'solution' | 'complete' | 'error';
-    payload?: {
-        progress?: SolverReport;
-        solution?: SolutionResult;
-        error?: string;
-    };
+function respond(response: WorkerResponse): void {
+    postMessage(response);
 }
 
-let currentSolver: any = null;
-
 // 监听主线程消息
-self.addEventListener('message', async (event: MessageEvent<WorkerMessage>) => {
-    const {type, payload} = event.data;
-
+self.addEventListener('message', async (event: MessageEvent<unknown>) => {
     try {
-        switch (type) {
+        const message = parseWorkerMessage(event.data);
+        switch (message.type) {
             case 'solve':
-                if (!payload) {
-                    throw new Error('Missing payload for solve command');
-                }
-                await handleSolve(payload.input, payload.maxAttempts, payload.timeout);
+                await handleSolve(message.runId, message.input, message.config);
                 break;
 
             case 'cancel':
                 handleCancel();
                 break;
-
-            default:
-                throw new Error(`Unknown message type: ${type}`);
         }
     } catch (error) {
-        postMessage({
+        respond({
+            version: PROTOCOL_VERSION,
             type: 'error',
-            payload: {
-                error: error instanceof Error ? error.message : 'Unknown error'
-            }
-        } as WorkerResponse);
+            runId: runIdOf(event.data),
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
     }
 });
 
-async function handleSolve(
-    input: string,
-    maxAttempts: number = 100000,
-    timeout: number = 30000
-): Promise<void> {
-    try {
-        // 解析输入
-        const {numbers, target} = parseInput(input);
-        // 创建进度回调
-        const progressCallback = (progress: SolverReport) => {
-            postMessage({
-                type: 'progress',
-                payload: {progress}
-            } as WorkerResponse);
+// 无法解析的消息尽量带回其中的 runId, 否则为 0
+function runIdOf(data: unknown): number {
+    const runId = (data as { runId?: unknown } | null)?.runId;
+    return typeof runId === 'number' ? runId : 0;
+}
 
-            // 如果找到解，立即发送
-            if (progress.solutions.length > 0) {
-                progress.solutions.forEach(solution => {
-                    postMessage({
-                        type: 'solution',
-                        payload: {
-                            solution: {
-                                expression: solution,
-                                attempts: progress.attempts,
-                                duration: 0, // 会在完成时更新
-                                found: true
-                            }
-                        }
-                    } as WorkerResponse);
-                });
-            }
-        };
+async function handleSolve(runId: number, input: string, config: WorkerSolverConfig): Promise<void> {
+    // 上一次求解仍在进行时先停止
+    currentController?.abort();
+    const controller = new AbortController();
+    currentController = controller;
 
-        // 开始求解
-        const progressing = solving(numbers, target, {
-            maxAttempts,
-            timeout,
-            enableConcatenation: true,
-            maxFactorialDepth: 3,
-            // progressCallback,
-            // progressInterval: 200
+    try {
+        // 解析输入
+        const {numbers, target, exactTarget, right, ordering, precedence} = parseInput(input);
+        // 顺序约束由输入语法决定
+        const solver = new Solver({...config, ordering, precedence});
+
+        // 按时间片求解, 期间可以收到 cancel 消息; 右侧为数字序列时两侧都插入运算
+        const result = await solver.solveAsync(numbers, right ?? exactTarget ?? target, {
+            signal: controller.signal,
+            onReport: (report: SolverReport) => respond({version: PROTOCOL_VERSION, type: 'report', runId, report})
         });
-        for (const solution of progressing) {
-            postMessage({
-                type: 'solution',
-                payload: {
-                    solution: {
-                        expression: solution.currentExpression,
-                        attempts: solution.attempts,
-                        duration: solution.duration,
-                        found: solution.currentExpression != null,
-                    }
-                }
-            } as WorkerResponse);
-        }
-
-        // 发送完成消息
-        postMessage({
-            type: 'complete',
-            payload: {}
-        } as WorkerResponse);
 
+        // 发送完成消息, 附带求解状态与规则覆盖范围
+        respond({version: PROTOCOL_VERSION, type: 'complete', runId, result});
     } catch (error) {
-        postMessage({
+        respond({
+            version: PROTOCOL_VERSION,
             type: 'error',
-            payload: {
-                error: error instanceof Error ? error.message : 'Solve failed'
-            }
-        } as WorkerResponse);
+            runId,
+            error: error instanceof Error ? error.message : 'Solve failed',
+            // ParseError 无法完整地结构化克隆, 只传递位置信息
+            ...(error instanceof ParseError && {
+                parseError: {code: error.code, start: error.start, end: error.end, expected: error.expected}
+            })
+        });
+    } finally {
+        if (currentController === controller) {
+            currentController = null;
+        }
     }
 }
 
+// 停止当前求解, 完成消息由 handleSolve 在搜索退出后发送
 function handleCancel(): void {
-    if (currentSolver && typeof currentSolver.cancel === 'function') {
-        currentSolver.cancel();
-    }
-
-    postMessage({
-        type: 'complete',
-        payload: {
-            solution: {
-                expression: null,
-                attempts: 0,
-                duration: 0,
-                found: false
-            }
-        }
-    } as WorkerResponse);
+    currentController?.abort();
 }
-
-// 导出类型供主线程使用
-export type {WorkerMessage, WorkerResponse};
\ No newline at end of file
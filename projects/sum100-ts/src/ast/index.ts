@@ -1,13 +1,21 @@
 // AST节点定义
 
+import {ArithmeticMode, DEFAULT_MAGNITUDE_LIMITS, MagnitudeLimits, Rational} from '../rational';
+
 // 基础AST节点接口
 export interface ASTNode {
     type: string;
     evaluate(): number;
+    // 精确求值, 结果不是有理数或超出量级限制时抛出异常
+    evaluateExact(limits?: MagnitudeLimits): Rational;
     /// hash 必须, 并非格式化输出
     toString(): string;
 }
 
+// 运算符
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^';
+export type UnaryOperator = '!' | '√' | '-';
+
 // 数字节点
 export class NumberNode implements ASTNode {
     type = 'number';
@@ -18,6 +26,10 @@ export class NumberNode implements ASTNode {
     evaluate(): number {
         return this.value;
     }
+
+    evaluateExact(): Rational {
+        return Rational.from(this.value);
+    }
     toString(): string { return `Number(${this.value})`; }
 }
 
@@ -27,33 +39,17 @@ export class BinaryOpNode implements ASTNode {
 
     constructor(
         public left: ASTNode,
-        public operator: '+' | '-' | '*' | '/' | '%' | '^',
+        public operator: BinaryOperator,
         public right: ASTNode
     ) {
     }
 
     evaluate(): number {
-        const leftVal = this.left.evaluate();
-        const rightVal = this.right.evaluate();
-
-        switch (this.operator) {
-            case '+':
-                return leftVal + rightVal;
-            case '-':
-                return leftVal - rightVal;
-            case '*':
-                return leftVal * rightVal;
-            case '/':
-                if (rightVal === 0) throw new Error('Division by zero');
-                return leftVal / rightVal;
-            case '%':
-                if (rightVal === 0) throw new Error('Modulo by zero');
-                return leftVal % rightVal;
-            case '^':
-                return Math.pow(leftVal, rightVal);
-            default:
-                throw new Error(`Unknown operator: ${this.operator}`);
-        }
+        return applyBinaryOperator(this.operator, this.left.evaluate(), this.right.evaluate());
+    }
+
+    evaluateExact(limits: MagnitudeLimits = DEFAULT_MAGNITUDE_LIMITS): Rational {
+        return applyBinaryOperatorExact(this.operator, this.left.evaluateExact(limits), this.right.evaluateExact(limits), limits);
     }
     toString(): string {
         return `(${this.left.toString()} ${this.operator} ${this.right.toString()})`;
@@ -65,40 +61,153 @@ export class UnaryOpNode implements ASTNode {
     type = 'unary_op';
 
     constructor(
-        public operator: '!' | '√' | '-',
+        public operator: UnaryOperator,
         public operand: ASTNode
     ) {
     }
 
     evaluate(): number {
-        const val = this.operand.evaluate();
-
-        switch (this.operator) {
-            case '!':
-                if (val < 0 || !Number.isInteger(val)) {
-                    throw new Error('Factorial only defined for non-negative integers');
-                }
-                if (val > 170) throw new Error('Factorial overflow');
-                return this.factorial(val);
-            case '√':
-                if (val < 0) throw new Error('Square root of negative number');
-                return Math.sqrt(val);
-            case '-':
-                return -val;
-            default:
-                throw new Error(`Unknown unary operator: ${this.operator}`);
-        }
+        return applyUnaryOperator(this.operator, this.operand.evaluate());
     }
 
-    private factorial(n: number): number {
-        if (n <= 1) return 1;
-        return n * this.factorial(n - 1);
+    evaluateExact(limits: MagnitudeLimits = DEFAULT_MAGNITUDE_LIMITS): Rational {
+        return applyUnaryOperatorExact(this.operator, this.operand.evaluateExact(limits), limits);
     }
     toString(): string {
         return `${this.operator}(${this.operand.toString()})`;
     }
 }
 
+// 括号节点, 保留用户书写的括号以便原样输出; 求值时透明
+export class ParenNode implements ASTNode {
+    type = 'paren';
+
+    constructor(public expression: ASTNode) {
+    }
+
+    evaluate(): number {
+        return this.expression.evaluate();
+    }
+
+    evaluateExact(limits: MagnitudeLimits = DEFAULT_MAGNITUDE_LIMITS): Rational {
+        return this.expression.evaluateExact(limits);
+    }
+
+    toString(): string {
+        return `Paren(${this.expression.toString()})`;
+    }
+}
+
+// 二元运算的数值语义
+export function applyBinaryOperator(operator: BinaryOperator, leftVal: number, rightVal: number): number {
+    switch (operator) {
+        case '+':
+            return leftVal + rightVal;
+        case '-':
+            return leftVal - rightVal;
+        case '*':
+            return leftVal * rightVal;
+        case '/':
+            if (rightVal === 0) throw new Error('Division by zero');
+            return leftVal / rightVal;
+        case '%':
+            if (rightVal === 0) throw new Error('Modulo by zero');
+            return leftVal % rightVal;
+        case '^':
+            return Math.pow(leftVal, rightVal);
+        default:
+            throw new Error(`Unknown operator: ${operator}`);
+    }
+}
+
+// 一元运算的数值语义
+export function applyUnaryOperator(operator: UnaryOperator, val: number): number {
+    switch (operator) {
+        case '!':
+            if (val < 0 || !Number.isInteger(val)) {
+                throw new Error('Factorial only defined for non-negative integers');
+            }
+            if (val > 170) throw new Error('Factorial overflow');
+            return factorial(val);
+        case '√':
+            if (val < 0) throw new Error('Square root of negative number');
+            return Math.sqrt(val);
+        case '-':
+            return -val;
+        default:
+            throw new Error(`Unknown unary operator: ${operator}`);
+    }
+}
+
+function factorial(n: number): number {
+    if (n <= 1) return 1;
+    return n * factorial(n - 1);
+}
+
+// 二元运算的精确语义, 幂运算仅在结果为有理数时成功
+export function applyBinaryOperatorExact(
+    operator: BinaryOperator,
+    leftVal: Rational,
+    rightVal: Rational,
+    limits: MagnitudeLimits = DEFAULT_MAGNITUDE_LIMITS
+): Rational {
+    switch (operator) {
+        case '+':
+            return checkMagnitude(leftVal.add(rightVal), limits);
+        case '-':
+            return checkMagnitude(leftVal.subtract(rightVal), limits);
+        case '*':
+            return checkMagnitude(leftVal.multiply(rightVal), limits);
+        case '/':
+            return checkMagnitude(leftVal.divide(rightVal), limits);
+        case '%':
+            return checkMagnitude(leftVal.modulo(rightVal), limits);
+        case '^': {
+            // 底数为 0、1 或 -1 时结果的绝对值不超过 1, 直接得出, 不受指数大小影响
+            if (leftVal.isZero()) {
+                if (rightVal.sign() < 0) throw new Error('Division by zero');
+                return rightVal.isZero() ? Rational.ONE : leftVal;
+            }
+            if (leftVal.equals(Rational.ONE)) return leftVal;
+            // (-1) 的偶次方根不是有理数, 交给 power 抛出异常
+            if (leftVal.equals(Rational.ONE.negate()) && rightVal.denominator % 2n === 1n) {
+                return rightVal.numerator % 2n === 0n ? Rational.ONE : leftVal;
+            }
+            // 先估算结果位数, 避免真正算出巨大的整数
+            const exponent = rightVal.numerator < 0n ? -rightVal.numerator : rightVal.numerator;
+            const estimate = Number(exponent) * leftVal.digits() / Number(rightVal.denominator);
+            if (estimate > limits.maxDigits + 1) throw new Error('Magnitude limit exceeded');
+            return checkMagnitude(leftVal.power(rightVal), limits);
+        }
+        default:
+            throw new Error(`Unknown operator: ${operator}`);
+    }
+}
+
+// 一元运算的精确语义, 开方仅在结果精确时成功
+export function applyUnaryOperatorExact(
+    operator: UnaryOperator,
+    val: Rational,
+    limits: MagnitudeLimits = DEFAULT_MAGNITUDE_LIMITS
+): Rational {
+    switch (operator) {
+        case '!':
+            if (val.isInteger() && val.compare(Rational.from(limits.maxFactorialOperand)) > 0) throw new Error('Factorial overflow');
+            return checkMagnitude(val.factorial(), limits);
+        case '√':
+            return val.sqrt();
+        case '-':
+            return val.negate();
+        default:
+            throw new Error(`Unknown unary operator: ${operator}`);
+    }
+}
+
+function checkMagnitude(value: Rational, limits: MagnitudeLimits): Rational {
+    if (value.digits() > limits.maxDigits) throw new Error('Magnitude limit exceeded');
+    return value;
+}
+
 // 数字连接节点（如123表示1,2,3连接）
 export class ConcatNode implements ASTNode {
     type = 'concat';
@@ -109,19 +218,24 @@ export class ConcatNode implements ASTNode {
     evaluate(): number {
         return parseInt(this.numbers.join(''));
     }
+
+    evaluateExact(): Rational {
+        return Rational.from(BigInt(this.numbers.join('')));
+    }
     toString(): string {
         return `Concat(${this.numbers.join('')})`;
     }
 }
 
 
-// 表达式节点（整个等式）
+// 表达式节点（整个等式）; right 存在时等式两侧都是表达式, target 为右侧的值
 export class ExpressionNode implements ASTNode {
     type = 'expression';
 
     constructor(
         public left: ASTNode,
-        public target: number
+        public target: number,
+        public right?: ASTNode
     ) {
     }
 
@@ -129,14 +243,78 @@ export class ExpressionNode implements ASTNode {
         return this.left.evaluate();
     }
 
-    isValid(): boolean {
+    evaluateExact(limits: MagnitudeLimits = DEFAULT_MAGNITUDE_LIMITS): Rational {
+        return this.left.evaluateExact(limits);
+    }
+
+    // exact 模式下只有可证明相等时才成立
+    isValid(arithmetic: ArithmeticMode = 'float', limits: MagnitudeLimits = DEFAULT_MAGNITUDE_LIMITS): boolean {
         try {
-            return Math.abs(this.evaluate() - this.target) < 1e-10;
+            if (arithmetic === 'exact') {
+                const target = this.right ? this.right.evaluateExact(limits) : Rational.from(this.target);
+                return this.evaluateExact(limits).equals(target);
+            }
+            return Math.abs(this.evaluate() - (this.right ? this.right.evaluate() : this.target)) < 1e-10;
         } catch {
             return false;
         }
     }
     toString(): string {
-        return `${this.left.toString()} = ${this.target}`;
+        return `${this.left.toString()} = ${this.right ? this.right.toString() : this.target}`;
     }
-}
\ No newline at end of file
+}
+
+// 节点经 JSON.parse 或结构化克隆后得到的普通对象
+export type NodeData =
+    | { type: 'number'; value: number }
+    | { type: 'binary_op'; left: NodeData; operator: BinaryOperator; right: NodeData }
+    | { type: 'unary_op'; operator: UnaryOperator; operand: NodeData }
+    | { type: 'concat'; numbers: number[] }
+    | { type: 'paren'; expression: NodeData }
+    | { type: 'expression'; left: NodeData; target: number; right?: NodeData };
+
+// 把 AST 节点转为普通对象; 按 type 字段分派, 结构化克隆得到的同形对象同样适用
+export function toNodeData(node: ASTNode): NodeData {
+    switch (node.type) {
+        case 'number':
+            return {type: 'number', value: (node as NumberNode).value};
+        case 'binary_op': {
+            const {left, operator, right} = node as BinaryOpNode;
+            return {type: 'binary_op', left: toNodeData(left), operator, right: toNodeData(right)};
+        }
+        case 'unary_op': {
+            const {operator, operand} = node as UnaryOpNode;
+            return {type: 'unary_op', operator, operand: toNodeData(operand)};
+        }
+        case 'concat':
+            return {type: 'concat', numbers: [...(node as ConcatNode).numbers]};
+        case 'paren':
+            return {type: 'paren', expression: toNodeData((node as ParenNode).expression)};
+        case 'expression': {
+            const {left, target, right} = node as ExpressionNode;
+            return {type: 'expression', left: toNodeData(left), target, ...(right && {right: toNodeData(right)})};
+        }
+        default:
+            throw new Error(`Unknown node type: ${node.type}`);
+    }
+}
+
+// 把普通对象还原为 AST 节点
+export function reviveNode(data: NodeData): ASTNode {
+    switch (data.type) {
+        case 'number':
+            return new NumberNode(data.value);
+        case 'binary_op':
+            return new BinaryOpNode(reviveNode(data.left), data.operator, reviveNode(data.right));
+        case 'unary_op':
+            return new UnaryOpNode(data.operator, reviveNode(data.operand));
+        case 'concat':
+            return new ConcatNode([...data.numbers]);
+        case 'paren':
+            return new ParenNode(reviveNode(data.expression));
+        case 'expression':
+            return new ExpressionNode(reviveNode(data.left), data.target, data.right && reviveNode(data.right));
+        default:
+            throw new Error(`Unknown node type: ${(data as { type: string }).type}`);
+    }
+}
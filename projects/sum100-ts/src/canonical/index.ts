@@ -0,0 +1,110 @@
+// 表达式的代数规范形式, 用于判断两个解是否本质相同
+
+import {ASTNode, BinaryOpNode, ParenNode, UnaryOpNode} from '../ast';
+
+// 规范化后的项, inverted 在加法链中表示减去, 在乘法链中表示除以
+interface Operand {
+    node: ASTNode;
+    inverted: boolean;
+}
+
+// 去重方式: canonical 按规范形式去重, raw 按原始结构去重
+export type DedupeMode = 'canonical' | 'raw';
+
+// 去掉括号, 展开结合律、排序交换律的操作数并消去双重取负
+export function canonicalize(node: ASTNode): ASTNode {
+    if (node instanceof ParenNode) return canonicalize(node.expression);
+    if (node instanceof UnaryOpNode) {
+        const operand = canonicalize(node.operand);
+        if (node.operator === '-' && operand instanceof UnaryOpNode && operand.operator === '-') {
+            return operand.operand;
+        }
+        return new UnaryOpNode(node.operator, operand);
+    }
+    if (node instanceof BinaryOpNode) {
+        switch (node.operator) {
+            case '+':
+            case '-':
+                return canonicalSum(node);
+            case '*':
+            case '/':
+                return canonicalProduct(node);
+            default:
+                return new BinaryOpNode(canonicalize(node.left), node.operator, canonicalize(node.right));
+        }
+    }
+    return node;
+}
+
+// 规范形式的字符串, 可直接作为去重的键
+export function canonicalKey(node: ASTNode): string {
+    return canonicalize(node).toString();
+}
+
+function canonicalSum(node: ASTNode): ASTNode {
+    const terms: Operand[] = [];
+    collectTerms(node, false, terms);
+    return rebuild(terms, '+', '-');
+}
+
+function collectTerms(node: ASTNode, inverted: boolean, terms: Operand[]): void {
+    if (node instanceof ParenNode) {
+        collectTerms(node.expression, inverted, terms);
+        return;
+    }
+    if (node instanceof BinaryOpNode && (node.operator === '+' || node.operator === '-')) {
+        collectTerms(node.left, inverted, terms);
+        collectTerms(node.right, node.operator === '-' ? !inverted : inverted, terms);
+        return;
+    }
+    if (node instanceof UnaryOpNode && node.operator === '-') {
+        collectTerms(node.operand, !inverted, terms);
+        return;
+    }
+    const term = canonicalize(node);
+    // 乘积中提出的负号同样并入项的符号
+    if (term instanceof UnaryOpNode && term.operator === '-') {
+        terms.push({node: term.operand, inverted: !inverted});
+    } else {
+        terms.push({node: term, inverted});
+    }
+}
+
+// 乘积中的负号全部提到最外层, 偶数个负号相互抵消
+function canonicalProduct(node: ASTNode): ASTNode {
+    const factors: Operand[] = [];
+    const negative = collectFactors(node, false, factors);
+    const product = rebuild(factors, '*', '/');
+    return negative ? new UnaryOpNode('-', product) : product;
+}
+
+// 返回收集到的负号个数是否为奇数
+function collectFactors(node: ASTNode, inverted: boolean, factors: Operand[]): boolean {
+    if (node instanceof ParenNode) return collectFactors(node.expression, inverted, factors);
+    if (node instanceof BinaryOpNode && (node.operator === '*' || node.operator === '/')) {
+        const left = collectFactors(node.left, inverted, factors);
+        const right = collectFactors(node.right, node.operator === '/' ? !inverted : inverted, factors);
+        return left !== right;
+    }
+    if (node instanceof UnaryOpNode && node.operator === '-') {
+        return !collectFactors(node.operand, inverted, factors);
+    }
+    factors.push({node: canonicalize(node), inverted});
+    return false;
+}
+
+// 先按正向操作数排序连接, 再依次施加反向操作数
+function rebuild(operands: Operand[], combine: '+' | '*', invert: '-' | '/'): ASTNode {
+    const sorted = (items: Operand[]) => items.map(item => item.node).sort((a, b) => compareKeys(a.toString(), b.toString()));
+    const forward = sorted(operands.filter(item => !item.inverted));
+    const inverse = sorted(operands.filter(item => item.inverted));
+
+    // 乘积最左侧的因子总是正向的, 只有加法链可能全部为减项
+    const first = forward.length > 0 ? forward.shift()! : new UnaryOpNode('-', inverse.shift()!);
+    const result = forward.reduce((acc, item) => new BinaryOpNode(acc, combine, item), first);
+    return inverse.reduce((acc, item) => new BinaryOpNode(acc, invert, item), result);
+}
+
+function compareKeys(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
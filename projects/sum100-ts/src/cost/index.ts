@@ -0,0 +1,68 @@
+// 表达式的复杂度代价, 用于挑选最简解与按代价排序
+
+import {ASTNode, BinaryOperator, BinaryOpNode, ConcatNode, ExpressionNode, ParenNode, UnaryOpNode} from '../ast';
+
+// 表达式的代价, 越小越简单; 按代价搜索时要求父节点的代价不小于任一子节点
+export type CostFunction = (node: ASTNode) => number;
+
+// 按节点类型与运算符加权的代价模型
+export interface CostModel {
+    // 单个数字
+    number: number;
+    // 连接数中的每个数字, 小于 number 与二元运算权重之和时倾向连接
+    concatDigit: number;
+    binary: Record<BinaryOperator, number>;
+    negation: number;
+    squareRoot: number;
+    // 阶乘的惩罚
+    factorial: number;
+}
+
+export const DEFAULT_COST_MODEL: CostModel = {
+    number: 1,
+    concatDigit: 1,
+    binary: {'+': 1, '-': 1, '*': 1, '/': 1, '%': 2, '^': 2},
+    negation: 1,
+    squareRoot: 2,
+    factorial: 3,
+};
+
+// 节点个数, 连接数计为一个节点, 括号不计
+export function nodeCount(node: ASTNode): number {
+    if (node instanceof BinaryOpNode) return 1 + nodeCount(node.left) + nodeCount(node.right);
+    if (node instanceof UnaryOpNode) return 1 + nodeCount(node.operand);
+    if (node instanceof ParenNode) return nodeCount(node.expression);
+    if (node instanceof ExpressionNode) return nodeCount(node.left);
+    return 1;
+}
+
+// 叶子计数: 数字与运算符各计 1, k 个数字的连接视为 k - 1 次连接运算
+export function leafCount(node: ASTNode): number {
+    if (node instanceof BinaryOpNode) return 1 + leafCount(node.left) + leafCount(node.right);
+    if (node instanceof UnaryOpNode) return 1 + leafCount(node.operand);
+    if (node instanceof ConcatNode) return 2 * node.numbers.length - 1;
+    if (node instanceof ParenNode) return leafCount(node.expression);
+    if (node instanceof ExpressionNode) return leafCount(node.left);
+    return 1;
+}
+
+// 由代价模型生成代价函数, 未给出的项 (包括单个运算符的权重) 取默认值
+export function weightedCost(model: Partial<Omit<CostModel, 'binary'>> & { binary?: Partial<CostModel['binary']> } = {}): CostFunction {
+    const weights: CostModel = {
+        ...DEFAULT_COST_MODEL,
+        ...model,
+        binary: {...DEFAULT_COST_MODEL.binary, ...model.binary},
+    };
+    const cost = (node: ASTNode): number => {
+        if (node instanceof BinaryOpNode) return weights.binary[node.operator] + cost(node.left) + cost(node.right);
+        if (node instanceof UnaryOpNode) {
+            const weight = node.operator === '!' ? weights.factorial : node.operator === '√' ? weights.squareRoot : weights.negation;
+            return weight + cost(node.operand);
+        }
+        if (node instanceof ConcatNode) return weights.concatDigit * node.numbers.length;
+        if (node instanceof ParenNode) return cost(node.expression);
+        if (node instanceof ExpressionNode) return cost(node.left);
+        return weights.number;
+    };
+    return cost;
+}
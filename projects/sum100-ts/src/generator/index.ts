@@ -0,0 +1,140 @@
+// 按种子生成谜题: 数字序列、目标值与允许的运算都由种子决定, 同一种子在任何环境下得到同一道题
+
+import {ExpressionNode} from '../ast';
+import {solveBatch, SolverConfig} from '../solver';
+
+// 谜题可选的运算集合, 未列出的开关都视为关闭
+export type OperatorRules = Pick<SolverConfig,
+    | 'enableConcatenation'
+    | 'enableAddition'
+    | 'enableSubtraction'
+    | 'enableMultiplication'
+    | 'enableDivision'
+    | 'enablePower'
+    | 'enableFactorial'
+    | 'enableSquareRoot'
+    | 'enableNegation'
+    | 'enableModulo'>;
+
+export const DEFAULT_OPERATOR_RULES: OperatorRules[] = [
+    {enableAddition: true, enableSubtraction: true},
+    {enableAddition: true, enableSubtraction: true, enableMultiplication: true, enableDivision: true},
+    {enableAddition: true, enableSubtraction: true, enableMultiplication: true, enableDivision: true, enableConcatenation: true},
+];
+
+export interface PuzzleOptions {
+    // 数字个数, 每个数字取 1 到 9
+    length?: number;
+    // 目标值的范围 (含两端)
+    minTarget?: number;
+    maxTarget?: number;
+    // 解的个数上限 N, 只选择有 1 到 N 个解的目标
+    maxSolutions?: number;
+    // 每道题从中选择一组允许的运算
+    operatorRules?: OperatorRules[];
+    // 放弃前最多检验多少组数字
+    maxCandidates?: number;
+    // 求解的其余配置, 如 maxDepth 与 maxAttempts; 运算开关由 operatorRules 决定, 策略固定为 tree
+    config?: SolverConfig;
+}
+
+export interface Puzzle {
+    seed: string;
+    numbers: number[];
+    target: number;
+    // 允许的运算, 可直接作为 Solver 或 verifyAnswer 的配置
+    rules: SolverConfig;
+    // 求解器找到的全部解
+    solutions: ExpressionNode[];
+    // 谜题文本, 可交给 parseInput 与 verifyAnswer
+    text: string;
+}
+
+// 全部运算开关都关闭, 运算集合在此基础上打开
+const NO_OPERATORS: Required<OperatorRules> = {
+    enableConcatenation: false,
+    enableAddition: false,
+    enableSubtraction: false,
+    enableMultiplication: false,
+    enableDivision: false,
+    enablePower: false,
+    enableFactorial: false,
+    enableSquareRoot: false,
+    enableNegation: false,
+    enableModulo: false,
+};
+
+// 生成有 1 到 maxSolutions 个解的谜题; 候选数字依次由种子决定, 每组数字用一次批量求解检验范围内的全部目标
+// 搜索受超时中断会使结果依赖机器速度, 因此默认不设超时, 设置了超时且被触发时抛出异常
+export async function generatePuzzle(seed: string | number, options: PuzzleOptions = {}): Promise<Puzzle> {
+    const length = options.length ?? 4;
+    const minTarget = options.minTarget ?? 1;
+    const maxTarget = options.maxTarget ?? 100;
+    const maxSolutions = options.maxSolutions ?? 10;
+    const operatorRules = options.operatorRules ?? DEFAULT_OPERATOR_RULES;
+    const maxCandidates = options.maxCandidates ?? 50;
+    if (!Number.isInteger(length) || length < 1) throw new Error(`Invalid puzzle length: ${length}`);
+    if (minTarget > maxTarget) throw new Error(`Invalid target range: ${minTarget}..${maxTarget}`);
+    if (maxSolutions < 1) throw new Error(`Invalid solution limit: ${maxSolutions}`);
+    if (operatorRules.length === 0) throw new Error('No operator rules to choose from');
+
+    const key = String(seed);
+    const random = seededRandom(key);
+    for (let candidate = 0; candidate < maxCandidates; candidate++) {
+        const numbers = Array.from({length}, () => 1 + randomInt(random, 9));
+        const rules: SolverConfig = {...NO_OPERATORS, ...operatorRules[randomInt(random, operatorRules.length)]};
+
+        const result = await solveBatch(numbers, {from: minTarget, to: maxTarget}, {
+            timeout: Infinity,
+            ...options.config,
+            ...rules,
+            // 解的个数按全部括号形式统计, chain 只尝试左结合的形式会漏数
+            strategy: 'tree',
+            ordering: 'strict',
+            exhaustive: true,
+        });
+        if (result.stopReason === 'timeout') throw new Error('Puzzle generation timed out');
+        // 未完整遍历时解的个数不可信, 换下一组数字
+        if (!result.complete) continue;
+
+        const targets = [...result.results]
+            .filter(([, {solutions}]) => solutions.length >= 1 && solutions.length <= maxSolutions)
+            .map(([target]) => target);
+        if (targets.length === 0) continue;
+
+        const target = targets[randomInt(random, targets.length)];
+        return {
+            seed: key,
+            numbers,
+            target,
+            rules,
+            solutions: result.results.get(target)!.solutions,
+            text: `${numbers.join(' ')} = ${target}`,
+        };
+    }
+    throw new Error(`No puzzle found for seed ${key} within ${maxCandidates} candidates`);
+}
+
+// 每日一题的种子: 按 UTC 日期, 各时区同一时刻得到同一道题
+export function dailySeed(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 10);
+}
+
+// 由字符串种子得到 [0, 1) 上的伪随机数序列 (FNV-1a 散列 + mulberry32)
+function seededRandom(seed: string): () => number {
+    let state = 0x811c9dc5;
+    for (let index = 0; index < seed.length; index++) {
+        state = Math.imul(state ^ seed.charCodeAt(index), 0x01000193);
+    }
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let value = Math.imul(state ^ (state >>> 15), state | 1);
+        value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+        return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// [0, count) 上的随机整数
+function randomInt(random: () => number, count: number): number {
+    return Math.floor(random() * count);
+}
@@ -1,4 +1,11 @@
 export * from './ast/index.js';
+export * from './rational/index.js';
 export * from './parser/index.js';
 export * from './solver/index.js';
+export * from './canonical/index.js';
 export * from './render/index.js';
+export * from './cost/index.js';
+export * from './table/index.js';
+export * from './partition/index.js';
+export * from './verify/index.js';
+export * from './generator/index.js';
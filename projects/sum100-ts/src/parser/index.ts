@@ -1,6 +1,47 @@
 // 解析器实现
 
-import {ASTNode, BinaryOpNode, ExpressionNode, NumberNode, UnaryOpNode} from '../ast';
+import {ASTNode, BinaryOpNode, ExpressionNode, NumberNode, ParenNode, UnaryOpNode} from '../ast';
+import {Rational} from '../rational';
+import {OrderingMode} from '../solver';
+
+// 解析错误码, 界面据此显示本地化的提示
+export type ParseErrorCode =
+    | 'unexpected-character'
+    | 'unexpected-token'
+    | 'unexpected-end'
+    | 'missing-equals'
+    | 'multiple-equals'
+    | 'missing-right-side'
+    | 'trailing-tokens'
+    | 'unclosed-paren'
+    | 'invalid-number'
+    | 'invalid-target'
+    | 'braces-on-right'
+    | 'nested-braces'
+    | 'unmatched-brace'
+    | 'unclosed-brace';
+
+// 出错位置允许出现的记号, operator 表示任一二元运算符, end 表示输入结尾
+export type ExpectedToken = 'number' | 'operator' | '-' | '!' | '√' | '(' | ')' | '=' | 'end';
+
+// 带位置的解析错误, start 与 end 是输入中出错片段的下标, 缺少内容时两者相等
+export class ParseError extends Error {
+    constructor(
+        readonly code: ParseErrorCode,
+        message: string,
+        readonly start: number,
+        readonly end: number,
+        readonly expected: ExpectedToken[] = []
+    ) {
+        super(message);
+        this.name = 'ParseError';
+    }
+}
+
+// 一个完整的操作数可以由这些记号开头
+const OPERAND_START: ExpectedToken[] = ['number', '(', '-', '√'];
+// 操作数之后可以接的记号, 另需加上所在位置的结束记号
+const OPERAND_FOLLOW: ExpectedToken[] = ['operator', '!'];
 
 // 词法分析器
 class Lexer {
@@ -25,80 +66,127 @@ class Lexer {
             if (/\d/.test(char)) {
                 this.readNumber();
             } else if (char === '=') {
-                this.tokens.push({type: 'EQUALS', value: '='});
-                this.pos++;
+                this.push('EQUALS', '=');
             } else if (['+', '-', '*', '/', '%', '^'].includes(char)) {
-                this.tokens.push({type: 'OPERATOR', value: char});
-                this.pos++;
+                this.push('OPERATOR', char);
             } else if (char === '!') {
-                this.tokens.push({type: 'FACTORIAL', value: '!'});
-                this.pos++;
+                this.push('FACTORIAL', '!');
             } else if (char === '√') {
-                this.tokens.push({type: 'SQRT', value: '√'});
-                this.pos++;
+                this.push('SQRT', '√');
             } else if (char === '(') {
-                this.tokens.push({type: 'LPAREN', value: '('});
-                this.pos++;
+                this.push('LPAREN', '(');
             } else if (char === ')') {
-                this.tokens.push({type: 'RPAREN', value: ')'});
-                this.pos++;
+                this.push('RPAREN', ')');
             } else {
-                throw new Error(`Unexpected character: ${char}`);
+                throw new ParseError('unexpected-character', `Unexpected character: ${char}`, this.pos, this.pos + 1);
             }
         }
 
-        this.tokens.push({type: 'EOF', value: ''});
+        this.tokens.push({type: 'EOF', value: '', start: this.input.length, end: this.input.length});
         return this.tokens;
     }
 
+    // 单字符记号
+    private push(type: Token['type'], value: string): void {
+        this.tokens.push({type, value, start: this.pos, end: this.pos + 1});
+        this.pos++;
+    }
+
+    // 整数或小数, 小数点后至少一位
     private readNumber(): void {
+        const start = this.pos;
         let num = '';
         while (this.pos < this.input.length && /\d/.test(this.input[this.pos])) {
             num += this.input[this.pos];
             this.pos++;
         }
-        this.tokens.push({type: 'NUMBER', value: num});
+        if (this.input[this.pos] === '.' && /\d/.test(this.input[this.pos + 1] ?? '')) {
+            num += '.';
+            this.pos++;
+            while (this.pos < this.input.length && /\d/.test(this.input[this.pos])) {
+                num += this.input[this.pos];
+                this.pos++;
+            }
+        }
+        this.tokens.push({type: 'NUMBER', value: num, start, end: this.pos});
     }
 }
 
 interface Token {
     type: 'NUMBER' | 'OPERATOR' | 'FACTORIAL' | 'SQRT' | 'LPAREN' | 'RPAREN' | 'EQUALS' | 'EOF';
     value: string;
+    // 记号在输入中的位置
+    start: number;
+    end: number;
 }
 
 // 语法分析器
 export class Parser {
     private pos = 0;
     private tokens: Token[] = [];
+    private input = '';
 
+    // 等号两侧都是表达式; 右侧为单个数字时作为目标值, 否则保留为右侧表达式
     parse(input: string): ExpressionNode {
-        const lexer = new Lexer(input);
-        this.tokens = lexer.tokenize();
-        this.pos = 0;
+        this.load(input);
 
         const leftExpr = this.parseExpression();
 
         if (this.currentToken().type !== 'EQUALS') {
-            throw new Error('Expected = sign');
+            throw this.error('missing-equals', 'Expected = sign', [...OPERAND_FOLLOW, '=']);
         }
         this.advance();
 
-        if (this.currentToken().type !== 'NUMBER') {
-            throw new Error('Expected target number after =');
+        if (this.currentToken().type === 'EOF') {
+            throw this.error('missing-right-side', 'Expected expression after =', OPERAND_START);
         }
 
-        const target = parseInt(this.currentToken().value);
-        this.advance();
+        const rightExpr = this.parseExpression();
 
         if (this.currentToken().type !== 'EOF') {
-            throw new Error('Unexpected tokens after target number');
+            // 多余的部分一直标记到输入结尾
+            const {start} = this.currentToken();
+            throw new ParseError('trailing-tokens', 'Unexpected tokens after right-hand side', start, this.input.length, [...OPERAND_FOLLOW, 'end']);
+        }
+
+        if (rightExpr instanceof NumberNode) {
+            return new ExpressionNode(leftExpr, rightExpr.value);
+        }
+        let target: number;
+        try {
+            target = rightExpr.evaluate();
+        } catch {
+            target = NaN;
         }
+        return new ExpressionNode(leftExpr, target, rightExpr);
+    }
 
-        return new ExpressionNode(leftExpr, target);
+    // 解析不含等号的单侧表达式, 如玩家写出的答案
+    parseSide(input: string): ASTNode {
+        this.load(input);
+        const expr = this.parseExpression();
+
+        if (this.currentToken().type !== 'EOF') {
+            const {start} = this.currentToken();
+            throw new ParseError('trailing-tokens', 'Unexpected tokens after expression', start, this.input.length, [...OPERAND_FOLLOW, 'end']);
+        }
+        return expr;
+    }
+
+    private load(input: string): void {
+        this.input = input;
+        this.tokens = new Lexer(input).tokenize();
+        this.pos = 0;
     }
 
     private currentToken(): Token {
-        return this.tokens[this.pos] || {type: 'EOF', value: ''};
+        return this.tokens[this.pos] || this.tokens[this.tokens.length - 1];
+    }
+
+    // 以当前记号为出错位置
+    private error(code: ParseErrorCode, message: string, expected: ExpectedToken[]): ParseError {
+        const {start, end} = this.currentToken();
+        return new ParseError(code, message, start, end, expected);
     }
 
     private advance(): void {
@@ -178,7 +266,7 @@ export class Parser {
 
     private parsePrimary(): ASTNode {
         if (this.currentToken().type === 'NUMBER') {
-            const value = parseInt(this.currentToken().value);
+            const value = parseFloat(this.currentToken().value);
             this.advance();
             return new NumberNode(value);
         }
@@ -187,40 +275,138 @@ export class Parser {
             this.advance();
             const expr = this.parseExpression();
             if (this.currentToken().type !== 'RPAREN') {
-                throw new Error('Expected closing parenthesis');
+                throw this.error('unclosed-paren', 'Expected closing parenthesis', [...OPERAND_FOLLOW, ')']);
             }
             this.advance();
             return new ParenNode(expr);
         }
 
-        throw new Error(`Unexpected token: ${this.currentToken().value}`);
+        if (this.currentToken().type === 'EOF') {
+            throw this.error('unexpected-end', 'Unexpected end of input', OPERAND_START);
+        }
+        throw this.error('unexpected-token', `Unexpected token: ${this.currentToken().value}`, OPERAND_START);
     }
 }
 
-// 解析数字序列（用于求解器生成表达式）
-export function parseNumberSequence(input: string): number[] {
-    return input.trim().split(/\s+/).map(s => {
-        const num = parseInt(s);
+// 解析数字序列（用于求解器生成表达式）; offset 为 input 在完整输入中的起始下标, 用于错误定位
+export function parseNumberSequence(input: string, offset = 0): number[] {
+    const words = [...input.matchAll(/\S+/g)];
+    if (words.length === 0) {
+        throw new ParseError('invalid-number', 'Invalid number: ', offset + input.length, offset + input.length, ['number']);
+    }
+    return words.map(word => {
+        const num = parseInt(word[0]);
         if (isNaN(num)) {
-            throw new Error(`Invalid number: ${s}`);
+            const start = offset + word.index!;
+            throw new ParseError('invalid-number', `Invalid number: ${word[0]}`, start, start + word[0].length, ['number']);
         }
         return num;
     });
 }
 
-// 解析完整输入（数字序列 = 目标值）
-export function parseInput(input: string): { numbers: number[], target: number } {
+// parseInput 的结果
+export interface ParsedInput {
+    numbers: number[];
+    // 目标值; 分数目标为近似值, 右侧为数字序列时为 NaN
+    target: number;
+    // 右侧为单个数值时的精确目标, 可以是负数、小数或 a/b 形式的分数
+    exactTarget?: Rational;
+    // 右侧为数字序列时, 两侧都可以插入运算
+    right?: number[];
+    ordering: OrderingMode;
+    precedence: Array<[number, number]>;
+}
+
+// 解析完整输入（数字序列 = 目标值, 或数字序列 = 数字序列）
+// 花括号内的数字可以任意调换顺序: `{2 3 4} = 24` 为任意排列, `1 {2 3} 4 = 10` 只固定组间顺序; 花括号只能出现在左侧
+export function parseInput(input: string): ParsedInput {
     const parts = input.split('=');
     if (parts.length !== 2) {
-        throw new Error('Input must contain exactly one = sign');
+        // 没有等号时标记输入结尾, 多个等号时标记第二个
+        const start = parts.length === 1 ? input.length : parts[0].length + parts[1].length + 1;
+        throw new ParseError(
+            parts.length === 1 ? 'missing-equals' : 'multiple-equals',
+            'Input must contain exactly one = sign',
+            start,
+            parts.length === 1 ? start : start + 1,
+            parts.length === 1 ? ['='] : []
+        );
+    }
+
+    const {numbers, groups} = parseNumberGroups(parts[0]);
+    const goal = parseGoal(parts[1], parts[0].length + 1);
+
+    if (!parts[0].includes('{')) {
+        return {numbers, ...goal, ordering: 'strict', precedence: []};
     }
+    if (groups.length === 1) {
+        return {numbers, ...goal, ordering: 'permutation', precedence: []};
+    }
+
+    // 相邻两组之间的先后约束, 传递性保证了整体组序
+    const precedence: Array<[number, number]> = [];
+    for (let index = 1; index < groups.length; index++) {
+        for (const before of groups[index - 1]) {
+            for (const after of groups[index]) {
+                precedence.push([before, after]);
+            }
+        }
+    }
+    return {numbers, ...goal, ordering: 'partial', precedence};
+}
 
-    const numbers = parseNumberSequence(parts[0]);
-    const target = parseInt(parts[1].trim());
+// 解析等号右侧: 多个数字为数字序列, 否则为单个数值; offset 为右侧在完整输入中的起始下标
+function parseGoal(input: string, offset: number): Pick<ParsedInput, 'target' | 'exactTarget' | 'right'> {
+    const text = input.trim();
+    const brace = input.search(/[{}]/);
+    if (brace >= 0) {
+        throw new ParseError('braces-on-right', 'Braces are only allowed on the left side', offset + brace, offset + brace + 1);
+    }
+    const start = offset + input.length - input.trimStart().length;
+    const invalid = () => new ParseError('invalid-target', 'Invalid target number', start, start + text.length, ['number']);
+    // 分数的斜杠两侧允许空格, 如 "1 / 3"; 含斜杠的右侧不会是数字序列
+    const compact = text.replace(/\s*\/\s*/g, '/');
+    if (/\s/.test(compact)) {
+        if (compact.includes('/')) throw invalid();
+        return {target: NaN, right: parseNumberSequence(input, offset)};
+    }
+    let exactTarget: Rational;
+    try {
+        exactTarget = Rational.from(compact);
+    } catch {
+        throw invalid();
+    }
+    return {target: exactTarget.toNumber(), exactTarget};
+}
 
-    if (isNaN(target)) {
-        throw new Error('Invalid target number');
+// 解析带花括号分组的数字序列, 返回每组包含的数字下标
+function parseNumberGroups(input: string): { numbers: number[], groups: number[][] } {
+    const numbers: number[] = [];
+    const groups: number[][] = [];
+    let open: number[] | null = null;
+    // 未闭合花括号的位置
+    let openAt = 0;
+
+    for (const match of input.matchAll(/[{}]|[^\s{}]+/g)) {
+        const [token] = match;
+        const start = match.index!;
+        if (token === '{') {
+            if (open) throw new ParseError('nested-braces', 'Nested braces are not allowed', start, start + 1);
+            open = [];
+            openAt = start;
+        } else if (token === '}') {
+            if (!open) throw new ParseError('unmatched-brace', 'Unmatched closing brace', start, start + 1);
+            if (open.length > 0) groups.push(open);
+            open = null;
+        } else {
+            const index = numbers.length;
+            numbers.push(...parseNumberSequence(token, start));
+            if (open) open.push(index);
+            else groups.push([index]);
+        }
     }
 
-    return {numbers, target};
-}
\ No newline at end of file
+    if (open) throw new ParseError('unclosed-brace', 'Unclosed brace', openAt, input.length);
+    if (numbers.length === 0) throw new ParseError('invalid-number', 'Invalid number: ', 0, input.length, ['number']);
+    return {numbers, groups};
+}
@@ -0,0 +1,114 @@
+// 分片并行求解: 为每个 Worker 生成分片配置, 并把各分片的报告与结果合并为一个
+
+import {ExpressionNode, reviveNode, toNodeData} from '../ast';
+import {canonicalKey, DedupeMode} from '../canonical';
+import {Approximation, SolutionResult, SolverConfig, SolverReport, SolverStatus, StopReason} from '../solver';
+
+// 把同一份配置拆成 count 个分片
+export function partitionConfigs(config: SolverConfig, count: number): SolverConfig[] {
+    if (!Number.isInteger(count) || count < 1) throw new Error(`Invalid partition count: ${count}`);
+    return Array.from({length: count}, (_, index) => ({...config, partition: {index, count}}));
+}
+
+// 报告与结果可能经过结构化克隆, 其中的解只是同形的普通对象, 先还原为 AST 节点
+function revive(expression: ExpressionNode): ExpressionNode {
+    return reviveNode(toNodeData(expression)) as ExpressionNode;
+}
+
+// 解的去重键, 参数须为已还原的 AST 节点
+function solutionKey(node: ExpressionNode, dedupe: DedupeMode): string {
+    return dedupe === 'canonical' ? canonicalKey(node.left) : node.toString();
+}
+
+// 按到达顺序合并各分片的报告
+export class ReportMerger {
+    private latest: Array<SolverReport | undefined>;
+    private solutionKeys = new Set<string>();
+
+    constructor(readonly count: number, private dedupe: DedupeMode = 'canonical') {
+        this.latest = new Array(count).fill(undefined);
+    }
+
+    // 合并第 index 个分片的报告; 重复的解返回 undefined, 全部分片完成时返回 complete 报告
+    // 返回的解总是还原后的 AST 节点
+    push(index: number, report: SolverReport): SolverReport | undefined {
+        this.latest[index] = report;
+        const merged = this.summary();
+        if (report.type === 'solution') {
+            if (!report.currentExpression) return undefined;
+            const solution = revive(report.currentExpression);
+            const key = solutionKey(solution, this.dedupe);
+            if (this.solutionKeys.has(key)) return undefined;
+            this.solutionKeys.add(key);
+            return {...merged, type: 'solution', currentExpression: solution};
+        }
+        return merged;
+    }
+
+    // 进度取各分片的平均值, 剩余时间取最慢的分片, 搜索空间为已报告分片之和
+    private summary(): SolverReport {
+        const reports = this.latest.filter((report): report is SolverReport => report !== undefined);
+        const done = this.latest.every(report => report?.type === 'complete');
+        return {
+            type: done ? 'complete' : 'progress',
+            attempts: reports.reduce((sum, report) => sum + report.attempts, 0),
+            eta: Math.max(0, ...reports.map(report => report.type === 'complete' ? 0 : report.eta)),
+            progress: this.latest.reduce((sum, report) => sum + (report?.type === 'complete' ? 1 : report?.progress ?? 0), 0) / this.count,
+            duration: Math.max(0, ...reports.map(report => report.duration)),
+            searchSpace: reports.reduce((sum, report) => sum + report.searchSpace, 0),
+        };
+    }
+}
+
+// 合并各分片的最终结果; 只有全部分片都证明无解时才算无解
+export function mergeResults(results: SolutionResult[], dedupe: DedupeMode = 'canonical'): SolutionResult {
+    if (results.length === 0) throw new Error('No results to merge');
+
+    const keys = new Set<string>();
+    const solutions: ExpressionNode[] = [];
+    for (const solution of results.flatMap(result => result.solutions).map(revive)) {
+        const key = solutionKey(solution, dedupe);
+        if (keys.has(key)) continue;
+        keys.add(key);
+        solutions.push(solution);
+    }
+
+    const stopReasons = results.map(result => result.stopReason).filter((reason): reason is StopReason => reason !== undefined);
+    const nearest = Math.max(...results.map(result => result.approximations.length));
+    const approximations: Approximation[] = [];
+    for (const approximation of results.flatMap(result => result.approximations).sort((a, b) => a.distance - b.distance)) {
+        if (approximations.length >= nearest) break;
+        if (approximations.some(item => item.value === approximation.value)) continue;
+        approximations.push({...approximation, expression: revive(approximation.expression)});
+    }
+
+    // 计数直接相加; 分片计数只允许 raw 去重 (见 Solver), 各分片统计的表达式互不重叠
+    let counts: Record<string, number> | undefined;
+    for (const result of results) {
+        if (!result.counts) continue;
+        counts ??= {};
+        for (const [group, count] of Object.entries(result.counts)) counts[group] = (counts[group] ?? 0) + count;
+    }
+    const found = solutions.length > 0 || results.some(result => result.found);
+
+    return {
+        expression: solutions[0] ?? revive(results[0].expression),
+        attempts: results.reduce((sum, result) => sum + result.attempts, 0),
+        duration: Math.max(...results.map(result => result.duration)),
+        found,
+        solutions,
+        complete: stopReasons.length === 0,
+        stopReason: stopReasons[0],
+        status: mergeStatus(found, results.map(result => result.status)),
+        coverage: results[0].coverage,
+        approximations,
+        ...(counts && {counts}),
+    };
+}
+
+// 取消优先于超时, 超时优先于尝试次数限制
+function mergeStatus(found: boolean, statuses: SolverStatus[]): SolverStatus {
+    if (found) return 'solved';
+    const order: SolverStatus[] = ['cancelled', 'timeout', 'attempt-limit'];
+    return order.find(status => statuses.includes(status)) ?? 'proved-unsolvable';
+}
@@ -0,0 +1,194 @@
+// 基于 BigInt 的精确有理数
+
+// 计算模式: float 使用 JS number 加容差比较, exact 使用有理数精确比较
+export type ArithmeticMode = 'float' | 'exact';
+
+// 精确求值时的量级限制, 避免阶乘与幂运算产生无法承受的大整数
+export interface MagnitudeLimits {
+    // 阶乘操作数的上限
+    maxFactorialOperand: number;
+    // 分子或分母的十进制位数上限
+    maxDigits: number;
+}
+
+export const DEFAULT_MAGNITUDE_LIMITS: MagnitudeLimits = {
+    maxFactorialOperand: 1000,
+    maxDigits: 10000,
+};
+
+export class Rational {
+    // 分母恒为正, 且分子分母互素
+    readonly numerator: bigint;
+    readonly denominator: bigint;
+
+    constructor(numerator: bigint, denominator: bigint = 1n) {
+        if (denominator === 0n) throw new Error('Division by zero');
+        if (denominator < 0n) {
+            numerator = -numerator;
+            denominator = -denominator;
+        }
+        const divisor = gcd(numerator < 0n ? -numerator : numerator, denominator);
+        this.numerator = numerator / divisor;
+        this.denominator = denominator / divisor;
+    }
+
+    static readonly ZERO = new Rational(0n);
+    static readonly ONE = new Rational(1n);
+
+    // 从 number 构造时按十进制字面量解析, 因此 0.1 得到 1/10; 字符串还可以是 a/b 形式的分数
+    static from(value: number | bigint | string): Rational {
+        if (typeof value === 'bigint') return new Rational(value);
+        if (typeof value === 'number' && !Number.isFinite(value)) {
+            throw new Error(`Not a finite number: ${value}`);
+        }
+        const text = String(value).trim();
+        const slash = text.indexOf('/');
+        if (slash >= 0) {
+            const denominator = Rational.from(text.slice(slash + 1));
+            if (denominator.isZero()) throw new Error(`Invalid number: ${text}`);
+            return Rational.from(text.slice(0, slash)).divide(denominator);
+        }
+        const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+        if (!match || (match[2] === '' && (match[3] ?? '') === '')) {
+            throw new Error(`Invalid number: ${text}`);
+        }
+        const [, sign, integer, fraction = '', exponent = '0'] = match;
+        let numerator = BigInt((integer || '0') + fraction);
+        if (sign === '-') numerator = -numerator;
+        const shift = Number(exponent) - fraction.length;
+        return shift >= 0
+            ? new Rational(numerator * 10n ** BigInt(shift))
+            : new Rational(numerator, 10n ** BigInt(-shift));
+    }
+
+    add(other: Rational): Rational {
+        return new Rational(
+            this.numerator * other.denominator + other.numerator * this.denominator,
+            this.denominator * other.denominator
+        );
+    }
+
+    subtract(other: Rational): Rational {
+        return this.add(other.negate());
+    }
+
+    multiply(other: Rational): Rational {
+        return new Rational(this.numerator * other.numerator, this.denominator * other.denominator);
+    }
+
+    divide(other: Rational): Rational {
+        if (other.isZero()) throw new Error('Division by zero');
+        return new Rational(this.numerator * other.denominator, this.denominator * other.numerator);
+    }
+
+    // 与 JS 的 % 一致: 结果符号跟随被除数
+    modulo(other: Rational): Rational {
+        if (other.isZero()) throw new Error('Modulo by zero');
+        const quotient = this.divide(other);
+        const truncated = new Rational(quotient.numerator / quotient.denominator);
+        return this.subtract(other.multiply(truncated));
+    }
+
+    negate(): Rational {
+        return new Rational(-this.numerator, this.denominator);
+    }
+
+    // 仅当结果为有理数时成功, 否则抛出异常
+    power(exponent: Rational): Rational {
+        if (this.isZero() && exponent.sign() < 0) throw new Error('Division by zero');
+        const base = exponent.denominator === 1n ? this : this.root(exponent.denominator);
+        const magnitude = exponent.numerator < 0n ? -exponent.numerator : exponent.numerator;
+        const result = new Rational(base.numerator ** magnitude, base.denominator ** magnitude);
+        return exponent.numerator < 0n ? Rational.ONE.divide(result) : result;
+    }
+
+    // 仅当结果精确时成功
+    sqrt(): Rational {
+        if (this.sign() < 0) throw new Error('Square root of negative number');
+        return this.root(2n);
+    }
+
+    factorial(): Rational {
+        if (!this.isInteger() || this.sign() < 0) {
+            throw new Error('Factorial only defined for non-negative integers');
+        }
+        let result = 1n;
+        for (let n = 2n; n <= this.numerator; n++) result *= n;
+        return new Rational(result);
+    }
+
+    isZero(): boolean {
+        return this.numerator === 0n;
+    }
+
+    isInteger(): boolean {
+        return this.denominator === 1n;
+    }
+
+    sign(): number {
+        return this.numerator === 0n ? 0 : this.numerator < 0n ? -1 : 1;
+    }
+
+    compare(other: Rational): number {
+        const difference = this.numerator * other.denominator - other.numerator * this.denominator;
+        return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+    }
+
+    equals(other: Rational): boolean {
+        return this.numerator === other.numerator && this.denominator === other.denominator;
+    }
+
+    // 分子与分母中较长者的十进制位数
+    digits(): number {
+        const numerator = this.numerator < 0n ? -this.numerator : this.numerator;
+        return Math.max(numerator.toString().length, this.denominator.toString().length);
+    }
+
+    // 超出浮点范围时返回 ±Infinity 或 0, 不会返回 NaN
+    toNumber(): number {
+        const numerator = Number(this.numerator);
+        const denominator = Number(this.denominator);
+        if (Number.isFinite(numerator) && Number.isFinite(denominator)) return numerator / denominator;
+        // 先把分子分母同时右移到浮点范围内
+        const bits = Math.max(bitLength(this.numerator), bitLength(this.denominator));
+        const shift = BigInt(Math.max(0, bits - 1000));
+        return Number(this.numerator >> shift) / Number(this.denominator >> shift);
+    }
+
+    toString(): string {
+        return this.isInteger() ? this.numerator.toString() : `${this.numerator}/${this.denominator}`;
+    }
+
+    private root(degree: bigint): Rational {
+        if (this.sign() < 0) throw new Error('Irrational power');
+        const numerator = integerRoot(this.numerator, degree);
+        const denominator = integerRoot(this.denominator, degree);
+        if (numerator === undefined || denominator === undefined) throw new Error('Irrational power');
+        return new Rational(numerator, denominator);
+    }
+}
+
+function bitLength(value: bigint): number {
+    return (value < 0n ? -value : value).toString(2).length;
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+    while (b !== 0n) [a, b] = [b, a % b];
+    return a === 0n ? 1n : a;
+}
+
+// 非负整数的精确 degree 次方根, 不是完全幂时返回 undefined
+function integerRoot(value: bigint, degree: bigint): bigint | undefined {
+    if (value < 2n) return value;
+    const bits = BigInt(bitLength(value));
+    // 次数不小于位数时根必然介于 1 和 2 之间
+    if (degree >= bits) return undefined;
+    // 牛顿迭代, 初值取不小于真实根的 2 的幂
+    let x = 1n << (bits / degree + 1n);
+    while (true) {
+        const next = ((degree - 1n) * x + value / x ** (degree - 1n)) / degree;
+        if (next >= x) break;
+        x = next;
+    }
+    return x ** degree === value ? x : undefined;
+}
@@ -1,4 +1,4 @@
-import {ASTNode, BinaryOpNode, ConcatNode, ExpressionNode, NumberNode, UnaryOpNode} from '../ast';
+import {ASTNode, BinaryOpNode, ConcatNode, ExpressionNode, NumberNode, ParenNode, UnaryOpNode} from '../ast';
 
 // 渲染选项
 export interface RenderOptions {
@@ -10,6 +10,45 @@ export interface RenderResult {
     content: string;
 }
 
+type RenderFormat = RenderOptions['format'];
+
+// 原子的优先级: 数字、括号, 以及各格式中自带分组的写法 (如 \frac、Mod[])
+const ATOM = 6;
+
+// 与解析器一致的优先级: 加减 < 乘除取余 < 乘方 < 前缀一元 < 阶乘 < 原子
+function precedence(node: ASTNode, format: RenderFormat): number {
+    switch (node.type) {
+        case 'binary_op': {
+            const {operator} = node as BinaryOpNode;
+            if (format === 'latex' && operator === '/') return ATOM;
+            if (format === 'mathematica' && (operator === '%' || operator === '^')) return ATOM;
+            if (operator === '^') return 3;
+            return operator === '+' || operator === '-' ? 1 : 2;
+        }
+        case 'unary_op': {
+            const {operator} = node as UnaryOpNode;
+            if (operator === '√' && format !== 'text') return ATOM;
+            if (operator === '!') return format === 'mathematica' ? ATOM : 5;
+            return 4;
+        }
+        case 'number':
+            // 负数按前缀取负处理
+            return (node as NumberNode).value < 0 ? 4 : ATOM;
+        default:
+            return ATOM;
+    }
+}
+
+// 子节点至少需要的优先级, 低于它时加括号才能保持树结构;
+// 左结合运算的右侧同级也要加括号, 乘方为右结合, 且左侧只能是前缀一元运算及更高的优先级
+function operandPrecedence(node: BinaryOpNode | UnaryOpNode, side: 'left' | 'right' | 'operand', format: RenderFormat): number {
+    if (node.type === 'unary_op') return (node as UnaryOpNode).operator === '!' ? 5 : 4;
+    const level = precedence(node, format);
+    // 数学记法中 -2^{2} 表示 -(2^2), 因此 LaTeX 的底数不能是前缀一元运算
+    if ((node as BinaryOpNode).operator === '^') return side === 'left' ? (format === 'latex' ? 5 : 4) : 3;
+    return side === 'left' ? level : level + 1;
+}
+
 // 主渲染器类
 export class Renderer {
     _config: RenderOptions;
@@ -35,6 +74,22 @@ export class Renderer {
         return {content};
     }
 
+    // 渲染子节点, 优先级不足时用给定的括号包围
+    private grouped(
+        parent: BinaryOpNode | UnaryOpNode,
+        side: 'left' | 'right' | 'operand',
+        format: RenderFormat,
+        open: string,
+        close: string
+    ): string {
+        const child = parent.type === 'unary_op' ? (parent as UnaryOpNode).operand
+            : side === 'left' ? (parent as BinaryOpNode).left : (parent as BinaryOpNode).right;
+        const content = format === 'latex' ? this.renderNodeLatex(child)
+            : format === 'mathematica' ? this.renderNodeMathematica(child)
+            : this.renderNodeText(child);
+        return precedence(child, format) < operandPrecedence(parent, side, format) ? `${open}${content}${close}` : content;
+    }
+
     // 渲染AST节点为文本格式
     private renderNodeText(node: ASTNode): string {
         switch (node.type) {
@@ -42,25 +97,27 @@ export class Renderer {
                 return (node as NumberNode).value.toString();
             case 'binary_op': {
                 const binNode = node as BinaryOpNode;
-                const left = this.renderNodeText(binNode.left);
-                const right = this.renderNodeText(binNode.right);
-                return `(${left} ${binNode.operator} ${right})`;
+                const left = this.grouped(binNode, 'left', 'text', `(`, `)`);
+                const right = this.grouped(binNode, 'right', 'text', `(`, `)`);
+                return `${left} ${binNode.operator} ${right}`;
             }
             case 'unary_op': {
                 const unaryNode = node as UnaryOpNode;
-                const operand = this.renderNodeText(unaryNode.operand);
+                const operand = this.grouped(unaryNode, 'operand', 'text', `(`, `)`);
                 if (unaryNode.operator === '!') {
                     return `${operand}!`;
                 }
                 return `${unaryNode.operator}${operand}`;
             }
+            case 'paren':
+                return `(${this.renderNodeText((node as ParenNode).expression)})`;
             case 'concat': {
                 const concatNode = node as ConcatNode;
                 return concatNode.numbers.join('');
             }
             case 'expression': {
                 const exprNode = node as ExpressionNode;
-                return `${this.renderNodeText(exprNode.left)} = ${exprNode.target}`;
+                return `${this.renderNodeText(exprNode.left)} = ${exprNode.right ? this.renderNodeText(exprNode.right) : exprNode.target}`;
             }
             default:
                 return 'Unknown';
@@ -74,8 +131,14 @@ export class Renderer {
                 return (node as NumberNode).value.toString();
             case 'binary_op': {
                 const binNode = node as BinaryOpNode;
-                const left = this.renderNodeLatex(binNode.left);
-                const right = this.renderNodeLatex(binNode.right);
+                if (binNode.operator === '/') {
+                    return `\\frac{${this.renderNodeLatex(binNode.left)}}{${this.renderNodeLatex(binNode.right)}}`;
+                }
+                const left = this.grouped(binNode, 'left', 'latex', '\\left(', '\\right)');
+                // 指数写在花括号内, 不需要括号
+                const right = binNode.operator === '^'
+                    ? this.renderNodeLatex(binNode.right)
+                    : this.grouped(binNode, 'right', 'latex', '\\left(', '\\right)');
                 switch (binNode.operator) {
                     case '+':
                         return `${left} + ${right}`;
@@ -83,8 +146,6 @@ export class Renderer {
                         return `${left} - ${right}`;
                     case '*':
                         return `${left} \\cdot ${right}`;
-                    case '/':
-                        return `\\frac{${left}}{${right}}`;
                     case '%':
                         return `${left} \\bmod ${right}`;
                     case '^':
@@ -95,12 +156,13 @@ export class Renderer {
             }
             case 'unary_op': {
                 const unaryNode = node as UnaryOpNode;
-                const operand = this.renderNodeLatex(unaryNode.operand);
+                if (unaryNode.operator === '√') {
+                    return `\\sqrt{${this.renderNodeLatex(unaryNode.operand)}}`;
+                }
+                const operand = this.grouped(unaryNode, 'operand', 'latex', '\\left(', '\\right)');
                 switch (unaryNode.operator) {
                     case '!':
                         return `${operand}!`;
-                    case '√':
-                        return `\\sqrt{${operand}}`;
                     case '-':
                         return `-${operand}`;
                     default:
@@ -111,9 +173,11 @@ export class Renderer {
                 const concatNode = node as ConcatNode;
                 return concatNode.numbers.join('');
             }
+            case 'paren':
+                return `\\left(${this.renderNodeLatex((node as ParenNode).expression)}\\right)`;
             case 'expression': {
                 const exprNode = node as ExpressionNode;
-                return `${this.renderNodeLatex(exprNode.left)} = ${exprNode.target}`;
+                return `${this.renderNodeLatex(exprNode.left)} = ${exprNode.right ? this.renderNodeLatex(exprNode.right) : exprNode.target}`;
             }
             default:
                 return 'Unknown';
@@ -127,46 +191,36 @@ export class Renderer {
                 return (node as NumberNode).value.toString();
             case 'binary_op': {
                 const binNode = node as BinaryOpNode;
-                const left = this.renderNodeMathematica(binNode.left);
-                const right = this.renderNodeMathematica(binNode.right);
-                switch (binNode.operator) {
-                    case '+':
-                        return `(${left} + ${right})`;
-                    case '-':
-                        return `(${left} - ${right})`;
-                    case '*':
-                        return `(${left} * ${right})`;
-                    case '/':
-                        return `(${left} / ${right})`;
-                    case '%':
-                        return `Mod[${left}, ${right}]`;
-                    case '^':
-                        return `Power[${left}, ${right}]`;
-                    default:
-                        return `(${left} ${binNode.operator} ${right})`;
+                // 函数形式的参数不需要括号
+                if (binNode.operator === '%' || binNode.operator === '^') {
+                    const left = this.renderNodeMathematica(binNode.left);
+                    const right = this.renderNodeMathematica(binNode.right);
+                    return binNode.operator === '%' ? `Mod[${left}, ${right}]` : `Power[${left}, ${right}]`;
                 }
+                const left = this.grouped(binNode, 'left', 'mathematica', '(', ')');
+                const right = this.grouped(binNode, 'right', 'mathematica', '(', ')');
+                return `${left} ${binNode.operator} ${right}`;
             }
             case 'unary_op': {
                 const unaryNode = node as UnaryOpNode;
-                const operand = this.renderNodeMathematica(unaryNode.operand);
                 switch (unaryNode.operator) {
                     case '!':
-                        return `Factorial[${operand}]`;
+                        return `Factorial[${this.renderNodeMathematica(unaryNode.operand)}]`;
                     case '√':
-                        return `Sqrt[${operand}]`;
-                    case '-':
-                        return `-${operand}`;
+                        return `Sqrt[${this.renderNodeMathematica(unaryNode.operand)}]`;
                     default:
-                        return `${unaryNode.operator}${operand}`;
+                        return `${unaryNode.operator}${this.grouped(unaryNode, 'operand', 'mathematica', '(', ')')}`;
                 }
             }
+            case 'paren':
+                return `(${this.renderNodeMathematica((node as ParenNode).expression)})`;
             case 'concat': {
                 const concatNode = node as ConcatNode;
                 return concatNode.numbers.join('');
             }
             case 'expression': {
                 const exprNode = node as ExpressionNode;
-                return `${this.renderNodeMathematica(exprNode.left)} == ${exprNode.target}`;
+                return `${this.renderNodeMathematica(exprNode.left)} == ${exprNode.right ? this.renderNodeMathematica(exprNode.right) : exprNode.target}`;
             }
             default:
                 return 'Unknown';
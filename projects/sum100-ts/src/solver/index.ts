@@ -1,4 +1,24 @@
-import {ASTNode, BinaryOpNode, ConcatNode, ExpressionNode, NumberNode, UnaryOpNode} from "../ast";
+import {
+    applyBinaryOperator,
+    applyBinaryOperatorExact,
+    applyUnaryOperator,
+    applyUnaryOperatorExact,
+    ASTNode,
+    BinaryOperator,
+    BinaryOpNode,
+    ConcatNode,
+    ExpressionNode,
+    NodeData,
+    NumberNode,
+    ParenNode,
+    reviveNode,
+    toNodeData,
+    UnaryOperator,
+    UnaryOpNode
+} from "../ast";
+import {ArithmeticMode, Rational} from "../rational";
+import {canonicalKey, DedupeMode} from "../canonical";
+import {CostFunction, nodeCount, weightedCost} from "../cost";
 
 // 求解结果
 export interface SolutionResult {
@@ -6,6 +26,49 @@ export interface SolutionResult {
     attempts: number;
     duration: number;
     found: boolean;
+    // 找到的全部解, expression 为其中第一个
+    solutions: ExpressionNode[];
+    // 搜索空间是否被完整覆盖
+    complete: boolean;
+    // 未完整覆盖时的中止原因
+    stopReason?: StopReason;
+    // 求解状态; proved-unsolvable 表示在 coverage 描述的规则下穷尽了搜索空间仍无解
+    status: SolverStatus;
+    coverage: RuleCoverage;
+    // 开启 nearest 时距离目标最近的若干个非精确结果, 按距离升序
+    approximations: Approximation[];
+    // 计数模式下各分组中互不相同的表达式个数
+    counts?: Record<string, number>;
+}
+
+// 近似解, expression 的等号右侧为其实际值
+export interface Approximation {
+    expression: ExpressionNode;
+    value: number;
+    distance: number;
+}
+
+// 搜索中止原因
+export type StopReason = 'timeout' | 'attempt-limit' | 'solution-limit' | 'cancelled';
+
+// 计数模式: off 正常收集解, target 统计每个整数结果各有多少个表达式, operators 按所用运算的集合统计命中目标的表达式
+export type CountingMode = 'off' | 'target' | 'operators';
+
+// 求解状态
+export type SolverStatus = 'solved' | 'proved-unsolvable' | 'timeout' | 'attempt-limit' | 'cancelled';
+
+// 本次搜索覆盖的规则, 是无解结论的适用范围
+export interface RuleCoverage {
+    strategy: SolverStrategy;
+    ordering: OrderingMode;
+    arithmetic: ArithmeticMode;
+    binaryOperators: BinaryOperator[];
+    unaryOperators: UnaryOperator[];
+    concatenation: boolean;
+    maxConcatLength: number;
+    maxDepth: number;
+    maxFactorialDepth: number;
+    maxFactorialOperand: number;
 }
 
 // 求解进度报告
@@ -14,8 +77,12 @@ export interface SolverReport {
     attempts: number;
     currentExpression?: ExpressionNode;
     eta: number; // 预计剩余时间（毫秒）
-    progress: number; // 0-1之间的进度
+    progress: number; // 0-1之间的进度, 即已探索的尝试次数占搜索空间的比例
+    // 搜索空间规模 (尝试次数) 的估计; 不计数值剪枝, 已完成的分支随后用实际尝试次数修正
+    searchSpace: number;
     duration: number; // 已用时间（毫秒）
+    // 开启 nearest 时, 当前为止最好的近似解
+    approximations?: Approximation[];
 }
 
 // 求解器配置
@@ -38,17 +105,218 @@ export interface SolverConfig {
     reportInterval?: number;
     // Max expression depth
     maxDepth?: number;
+    // 搜索策略: chain 只构造左折叠链, tree 枚举有序数字上的所有二叉树形状, interval 按区间动态规划合并可达值,
+    // cost 以代价为界迭代加深枚举二叉树, 解按代价升序产出
+    strategy?: SolverStrategy;
+    // 解的判定方式: exact 仅在有理数精确相等时报告解, 并用大整数计算中间值 (interval 策略的值表仍为浮点)
+    arithmetic?: ArithmeticMode;
+    // 阶乘操作数上限; float 模式下超过 170 会溢出
+    maxFactorialOperand?: number;
+    // exact 模式下中间值分子或分母的十进制位数上限
+    maxDigits?: number;
+    // 数字顺序: strict 保持给定顺序, permutation 允许任意排列, partial 只需满足 precedence 中的先后约束
+    ordering?: OrderingMode;
+    // partial 模式下的先后约束, [i, j] 表示 numbers[i] 必须排在 numbers[j] 之前
+    precedence?: Array<[number, number]>;
+    // 解的去重方式: canonical 合并代数上等价的写法, raw 保留所有结构不同的变体
+    dedupe?: DedupeMode;
+    // 找到多少个解后停止, 0 表示不限
+    maxSolutions?: number;
+    // 穷举模式: 忽略 maxSolutions, 直到搜索空间耗尽或触发超时/尝试次数限制
+    exhaustive?: boolean;
+    // 记录距离目标最近的多少个近似值, 0 表示不记录
+    nearest?: number;
+    // cost 策略使用的代价函数, 默认为 weightedCost()
+    cost?: CostFunction;
+    // 分片搜索: 只搜索编号对 count 取余等于 index 的顶层分支, 各分片合起来覆盖整个搜索空间; 不支持 cost 策略
+    partition?: SearchPartition;
+    // 计数模式只统计命中个数, 不构造解也不受 maxSolutions 限制; 不支持 interval 策略, 分片时须使用 raw 去重
+    counting?: CountingMode;
+}
+
+// 搜索空间的一个分片
+export interface SearchPartition {
+    index: number;
+    count: number;
+}
+
+// 全部配置项; 类型保证与 SolverConfig 同步
+const SOLVER_CONFIG_KEYS: Record<keyof SolverConfig, true> = {
+    maxAttempts: true,
+    timeout: true,
+    maxFactorialDepth: true,
+    enableConcatenation: true,
+    enableAddition: true,
+    enableSubtraction: true,
+    enableMultiplication: true,
+    enableDivision: true,
+    enablePower: true,
+    enableFactorial: true,
+    enableSquareRoot: true,
+    enableNegation: true,
+    enableModulo: true,
+    reportInterval: true,
+    maxDepth: true,
+    strategy: true,
+    arithmetic: true,
+    maxFactorialOperand: true,
+    maxDigits: true,
+    ordering: true,
+    precedence: true,
+    dedupe: true,
+    maxSolutions: true,
+    exhaustive: true,
+    nearest: true,
+    cost: true,
+    partition: true,
+    counting: true,
+};
+
+// 校验外部传入的配置 (如 Worker 消息), 含有未知字段时抛出异常
+export function validateSolverConfig(config: object): SolverConfig {
+    const unknown = Object.keys(config).filter(key => !Object.prototype.hasOwnProperty.call(SOLVER_CONFIG_KEYS, key));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown solver option: ${unknown.join(', ')}`);
+    }
+    return config as SolverConfig;
 }
 
+// 数字顺序模式
+export type OrderingMode = 'strict' | 'permutation' | 'partial';
+
+// 搜索策略
+export type SolverStrategy = 'chain' | 'tree' | 'interval' | 'cost';
+
+// 区间动态规划中某个可达值及其见证表达式
+interface IntervalEntry {
+    value: number;
+    node: ASTNode;
+    height: number;
+}
+
+// 快照格式的版本, 字段含义变化时递增
+export const SNAPSHOT_VERSION = 1;
+
+// 快照中的遍历位置: 前 ordering 个数字顺序已经完成, 下一个顺序中前 branch 个顶层分支已经完成
+export interface SnapshotPosition {
+    ordering: number;
+    branch: number;
+    // 检查点处的顶层分支计数, 恢复后各分片仍认领同样的分支
+    branchCounter: number;
+    // cost 策略按代价分轮, 记录下一轮的代价区间; null 表示没有下限
+    costRange?: [number | null, number];
+}
+
+// 求解目标: 数值, 精确的有理数 (如分数), 或等式右侧的数字序列 (两侧都可以插入运算)
+export type SolveTarget = number | Rational | number[];
+
+// 可序列化为 JSON 的搜索快照; 恢复时从最近一个检查点继续, 之后的部分会重新搜索
+export interface SolverSnapshot {
+    version: number;
+    numbers: number[];
+    target: number;
+    // 有理数目标的精确值, 如 "1/3"
+    exactTarget?: string;
+    // 用于确认恢复时的配置与原搜索一致
+    coverage: RuleCoverage;
+    partition: SearchPartition;
+    position: SnapshotPosition;
+    // 检查点处的统计; 耗时与尝试次数在恢复后继续累计, 超时与尝试次数上限按累计值判断
+    attempts: number;
+    duration: number;
+    searchSpace: number;
+    // 截至拍摄快照时找到的解与近似解
+    solutions: NodeData[];
+    approximations: Array<{ expression: NodeData; value: number; distance: number }>;
+}
+
+// 批量求解的目标: 任意数字集合, 或 from 到 to (含两端) 按 step 递增的范围
+export type TargetSet = Iterable<number> | TargetRange;
+
+export interface TargetRange {
+    from: number;
+    to: number;
+    step?: number;
+}
+
+// 批量求解中单个目标的结果
+export interface BatchTargetResult {
+    solutions: ExpressionNode[];
+    // 没有解的目标沿用整体的中止原因, 完整遍历后为 proved-unsolvable
+    status: SolverStatus;
+}
+
+// 批量求解结果, results 按目标升序
+export interface BatchResult {
+    results: Map<number, BatchTargetResult>;
+    attempts: number;
+    duration: number;
+    complete: boolean;
+    stopReason?: StopReason;
+    coverage: RuleCoverage;
+}
+
+// 异步迭代的选项
+export interface StreamOptions {
+    signal?: AbortSignal;
+    // 从快照恢复搜索, 此时忽略传入的数字与目标
+    resumeFrom?: SolverSnapshot;
+    // 每个时间片的长度（毫秒）, 用完后让出事件循环
+    sliceDuration?: number;
+}
+
+// 异步求解的选项
+export interface AsyncSolveOptions extends StreamOptions {
+    onReport?: (report: SolverReport) => void;
+}
+
+// 默认时间片长度（毫秒）
+const DEFAULT_SLICE_DURATION = 10;
+
+// 批量求解中的一个目标; 等式两侧求解时目标为右侧各表达式的值, exact 与 right 分别为其精确值与右侧表达式
+interface BatchEntry {
+    solutions: ExpressionNode[];
+    keys: Set<string>;
+    exact?: Rational;
+    right?: ASTNode;
+}
+
+// 批量求解的内部状态; buckets 按四舍五入后的整数值索引目标, 避免每个候选都遍历全部目标
+interface BatchState {
+    targets: Map<number, BatchEntry>;
+    buckets: Map<number, number[]>;
+    // 解数达到 maxSolutions 的目标个数
+    satisfied: number;
+    // 为真时 maxSolutions 限制所有目标的解的总数, 解同时收集到 solutions 中
+    shared: boolean;
+}
+
+// 最多连接的数字个数
+export const MAX_CONCAT_LENGTH = 4;
+
+// chain 策略在该深度的状态上分片
+const CHAIN_PARTITION_DEPTH = 2;
+
+// 估计搜索空间时用到的运算规模
+interface SpaceShape {
+    binary: number;
+    unary: number;
+    concat: boolean;
+    maxDepth: number;
+}
+
+// interval 策略在未物化的整段上只按整数偏移查询近似值, 这是最大偏移
+const MAX_NEAREST_OFFSET = 10;
+
 // 记忆化缓存 (保持不变)
-class AttemptCache {
-    private cache = new Map<string, number>();
+class AttemptCache<T> {
+    private cache = new Map<string, T>();
 
-    get(key: string): number | undefined {
+    get(key: string): T | undefined {
         return this.cache.get(key);
     }
 
-    set(key: string, value: number): void {
+    set(key: string, value: T): void {
         if (this.cache.size > 100000) {
             this.cache.clear();
         } // Increased cache size
@@ -61,13 +329,46 @@ class AttemptCache {
 }
 
 export class Solver {
-    private cache = new AttemptCache();
+    private cache = new AttemptCache<number>();
+    private exactCache = new AttemptCache<Rational>();
     private startTime = 0;
     private attempts = 0;
     private solutions: ExpressionNode[] = [];
+    private solutionKeys = new Set<string>();
+    private approximations: Approximation[] = [];
     private config: Required<SolverConfig>;
     private cancelled = false;
     private lastReportTime = 0;
+    // 生成器产出进度报告的间隔; 异步求解时缩短到时间片长度, 以便及时让出
+    private checkpointInterval: number;
+    private stopReason?: StopReason;
+    // cost 策略下, 本轮因超出代价上限被剪掉的最小代价, 即下一轮的上限
+    private nextCostBound = Infinity;
+    // 已遇到的顶层分支数, 各分片的遍历顺序相同, 因此编号一致
+    private branchCounter = 0;
+    // 搜索空间的当前估计, 以及每个数字顺序的初始估计与尚未开始的顺序数
+    private searchSpace = 0;
+    private orderingSpace = 0;
+    private orderingsLeft = 0;
+    // tree 策略下各顶层分支的估计, 分支结束后用实际尝试次数替换
+    private rootBranchSpace?: number[];
+    // 当前搜索的数字与目标, 以及正在搜索的数字顺序编号
+    private numbers: number[] = [];
+    private target = 0;
+    private orderingIndex = 0;
+    // 最近一个检查点; 恢复时在到达 resumePoint 之前跳过已完成的部分
+    private checkpoint?: Pick<SolverSnapshot, 'position' | 'attempts' | 'duration' | 'searchSpace'>;
+    private resumePoint?: SnapshotPosition;
+    private pendingSnapshot?: SolverSnapshot;
+    // 计数模式下各分组的命中数, 以及 canonical 去重用的 "分组 + 规范形式" 键
+    private counts = new Map<string, number>();
+    private countedKeys = new Set<string>();
+    private targetHits = 0;
+    private batch?: BatchState;
+    private pendingBatch?: BatchState;
+    // 有理数目标的精确值及其作为等式右侧的分数表达式
+    private exactTarget?: Rational;
+    private targetRight?: ASTNode;
 
     constructor(config: SolverConfig = {}) {
         this.config = {
@@ -87,83 +388,992 @@ export class Solver {
             reportInterval: config.reportInterval ?? 100,
             // Default max expression depth
             maxDepth: config.maxDepth ?? 8,
+            strategy: config.strategy ?? 'chain',
+            arithmetic: config.arithmetic ?? 'float',
+            maxFactorialOperand: config.maxFactorialOperand ?? 15,
+            maxDigits: config.maxDigits ?? 1000,
+            ordering: config.ordering ?? 'strict',
+            precedence: config.precedence ?? [],
+            dedupe: config.dedupe ?? 'canonical',
+            maxSolutions: config.maxSolutions ?? 10,
+            exhaustive: config.exhaustive ?? false,
+            nearest: config.nearest ?? 0,
+            cost: config.cost ?? weightedCost(),
+            partition: config.partition ?? {index: 0, count: 1},
+            counting: config.counting ?? 'off',
         };
+        const {index, count} = this.config.partition;
+        if (!Number.isInteger(count) || count < 1 || !Number.isInteger(index) || index < 0 || index >= count) {
+            throw new Error(`Invalid partition: ${index}/${count}`);
+        }
+        // cost 策略每轮的代价上限由本分片见到的剪枝节点决定, 各分片的轮次与分支编号无法对齐
+        if (count > 1 && this.config.strategy === 'cost') {
+            throw new Error('Partitioning is not supported by the cost strategy');
+        }
+        // interval 策略按值合并表达式, 无法逐个计数
+        if (this.config.counting !== 'off' && this.config.strategy === 'interval') {
+            throw new Error('Counting mode is not supported by the interval strategy');
+        }
+        // 等价的表达式可能落在不同分片, 各分片按规范形式分别去重后的计数无法合并
+        if (this.config.counting !== 'off' && count > 1 && this.config.dedupe === 'canonical') {
+            throw new Error('Counting mode with canonical dedupe cannot be partitioned');
+        }
+        this.checkpointInterval = this.config.reportInterval;
     }
 
     cancel(): void {
         this.cancelled = true;
     }
 
-    * solve(numbers: number[], target: number): Generator<SolverReport, SolutionResult, unknown> {
+    // 按时间片驱动 solve(), 每片结束后让出事件循环以响应 signal 与外部消息;
+    // 进度报告仍按 reportInterval 产出, 中止后以 complete 报告结束, 结果的 status 为 cancelled
+    async* stream(numbers: number[], target: SolveTarget, options: StreamOptions = {}): AsyncGenerator<SolverReport, SolutionResult, unknown> {
+        return yield* this.drive(() => options.resumeFrom ? this.resume(options.resumeFrom) : this.solve(numbers, target), options);
+    }
+
+    // solveBatch() 的异步迭代形式
+    async* streamBatch(numbers: number[], targets: TargetSet, options: Omit<StreamOptions, 'resumeFrom'> = {}): AsyncGenerator<SolverReport, BatchResult, unknown> {
+        return yield* this.drive(() => this.solveBatch(numbers, targets), options);
+    }
+
+    private async* drive<T>(start: () => Generator<SolverReport, T, unknown>, options: StreamOptions): AsyncGenerator<SolverReport, T, unknown> {
+        const {signal, sliceDuration = DEFAULT_SLICE_DURATION} = options;
+        this.checkpointInterval = Math.min(sliceDuration, this.config.reportInterval);
+        try {
+            const generator = start();
+            let lastForwarded = 0;
+            let sliceStart = Date.now();
+            let step = generator.next();
+            while (!step.done) {
+                const report = step.value;
+                if (report.type !== 'progress' || Date.now() - lastForwarded >= this.config.reportInterval) {
+                    if (report.type === 'progress') lastForwarded = Date.now();
+                    yield report;
+                }
+                if (Date.now() - sliceStart >= sliceDuration) {
+                    await new Promise(resolve => setTimeout(resolve, 0));
+                    sliceStart = Date.now();
+                }
+                if (signal?.aborted) this.cancel();
+                step = generator.next();
+            }
+            return step.value;
+        } finally {
+            this.checkpointInterval = this.config.reportInterval;
+        }
+    }
+
+    // 消费 stream() 的全部报告, 返回最终结果
+    async solveAsync(numbers: number[], target: SolveTarget, options: AsyncSolveOptions = {}): Promise<SolutionResult> {
+        const {onReport, ...streamOptions} = options;
+        const stream = this.stream(numbers, target, streamOptions);
+        let step = await stream.next();
+        while (!step.done) {
+            onReport?.(step.value);
+            step = await stream.next();
+        }
+        return step.value;
+    }
+
+    // 从快照继续搜索; 配置须与拍摄快照时一致
+    * resume(snapshot: SolverSnapshot): Generator<SolverReport, SolutionResult, unknown> {
+        if (this.config.counting !== 'off') throw new Error('Counting mode cannot resume from a snapshot');
+        if (snapshot.version !== SNAPSHOT_VERSION) throw new Error(`Unsupported snapshot version: ${snapshot.version}`);
+        if (JSON.stringify(snapshot.coverage) !== JSON.stringify(this.coverage())
+            || JSON.stringify(snapshot.partition) !== JSON.stringify(this.config.partition)) {
+            throw new Error('Snapshot does not match solver config');
+        }
+        this.pendingSnapshot = snapshot;
+        return yield* this.solve(snapshot.numbers, snapshot.exactTarget ? Rational.from(snapshot.exactTarget) : snapshot.target);
+    }
+
+    // 同一数字序列对多个目标共用一次遍历, 每个目标最多收集 maxSolutions 个解, 全部目标都达到上限时停止;
+    // 每找到一个解就产出 solution 报告, 因此每个目标的首个解会在命中时立即产出
+    * solveBatch(numbers: number[], targets: TargetSet): Generator<SolverReport, BatchResult, unknown> {
+        if (this.config.counting !== 'off') throw new Error('Counting mode cannot be combined with batch solving');
+        const batch: BatchState = {targets: new Map(), buckets: new Map(), satisfied: 0, shared: false};
+        for (const target of expandTargets(targets)) addBatchTarget(batch, target, {solutions: [], keys: new Set()});
+        this.pendingBatch = batch;
+        const result = yield* this.solve(numbers, NaN);
+        return {
+            results: new Map([...batch.targets].map(([target, {solutions}]) => [
+                target,
+                {solutions, status: solutions.length > 0 ? 'solved' : result.status}
+            ])),
+            attempts: result.attempts,
+            duration: result.duration,
+            complete: result.complete,
+            stopReason: result.stopReason,
+            coverage: result.coverage,
+        };
+    }
+
+    // 最近一个检查点的快照, 可在搜索中途或结束后获取; 尚未开始搜索或批量求解时返回 undefined
+    snapshot(): SolverSnapshot | undefined {
+        if (!this.checkpoint || this.batch) return undefined;
+        return {
+            version: SNAPSHOT_VERSION,
+            numbers: [...this.numbers],
+            target: this.target,
+            ...(this.exactTarget && {exactTarget: this.exactTarget.toString()}),
+            coverage: this.coverage(),
+            partition: {...this.config.partition},
+            ...this.checkpoint,
+            position: {...this.checkpoint.position},
+            solutions: this.solutions.map(toNodeData),
+            approximations: this.approximations.map(({expression, value, distance}) => ({
+                expression: toNodeData(expression), value, distance
+            })),
+        };
+    }
+
+    // 目标为数字序列时先枚举右侧的所有值, 再对左侧按这些值批量求解, maxSolutions 限制解的总数
+    * solve(numbers: number[], goal: SolveTarget): Generator<SolverReport, SolutionResult, unknown> {
+        const snapshot = this.pendingSnapshot;
+        const batch = this.pendingBatch;
+        this.pendingSnapshot = undefined;
+        this.pendingBatch = undefined;
         this.reset();
+        this.batch = batch;
         this.startTime = Date.now();
+        this.numbers = [...numbers];
+        const target = this.prepareGoal(goal);
+        this.target = target;
 
         if (numbers.length === 0) {
             const duration = Date.now() - this.startTime;
-            yield {type: 'complete', attempts: 0, eta: 0, progress: 1, duration};
+            yield {type: 'complete', attempts: 0, eta: 0, progress: 1, duration, searchSpace: 0};
             return {
                 expression: new ExpressionNode(new NumberNode(0), target),
-                attempts: 0, duration, found: false
+                attempts: 0, duration, found: false, solutions: [], complete: true,
+                status: 'proved-unsolvable', coverage: this.coverage(), approximations: [],
+                ...this.countReport()
             };
         }
 
-        try {
-            // Initial AST creation considering order and concatenation ---
-            const initialAstCreationPaths: Array<{ ast: ASTNode, numbersConsumed: number }> = [];
-
-            // Path 1: First number itself
-            initialAstCreationPaths.push({ast: new NumberNode(numbers[0]), numbersConsumed: 1});
-
-            // Path 2: Concatenation from the beginning (if enabled)
-            if (this.config.enableConcatenation) {
-                // Concatenate 2 to 4 numbers (or up to numbers.length)
-                for (let len = 2; len <= Math.min(4, numbers.length); len++) {
-                    const initialNumsToConcat = numbers.slice(0, len);
-                    initialAstCreationPaths.push({ast: new ConcatNode(initialNumsToConcat), numbersConsumed: len});
-                }
-            }
+        this.orderingsLeft = countOrderings(numbers, this.config.ordering, this.config.precedence);
+        this.orderingSpace = this.estimateOrderingSpace(numbers.length);
+        this.searchSpace = this.orderingSpace * this.orderingsLeft;
+        this.markCompleted(0, 0);
+        if (snapshot) this.restore(snapshot);
+        if (Array.isArray(goal)) yield* this.prepareEquation(goal);
 
-            for (const path of initialAstCreationPaths) {
-                // Early exit if enough solutions are found or other limits reached
-                if (this.cancelled || (this.solutions.length >= 10 && this.config.maxAttempts > this.attempts) || (Date.now() - this.startTime >= this.config.timeout)) {
-                    break;
+        try {
+            if (this.config.strategy === 'cost') {
+                // 代价分轮覆盖所有顺序, 排列在每一轮内部展开
+                const costRange = this.resumePoint?.costRange;
+                this.completedBefore(0);
+                yield* this.searchByCost(numbers, target, costRange);
+            } else {
+                let index = -1;
+                for (const sequence of orderings(numbers, this.config.ordering, this.config.precedence)) {
+                    index++;
+                    if (this.shouldStop()) break;
+                    this.orderingsLeft--;
+                    if (this.resumePoint && index < this.resumePoint.ordering) continue;
+                    this.orderingIndex = index;
+                    this.completedBefore(0);
+                    if (this.config.strategy === 'tree') {
+                        yield* this.searchTree(sequence, target);
+                    } else if (this.config.strategy === 'interval') {
+                        yield* this.searchInterval(sequence, target);
+                    } else {
+                        yield* this.searchChain(sequence, target);
+                    }
+                    this.markCompleted(index + 1, 0);
                 }
-                const {ast: initialAst, numbersConsumed} = path;
-                const remainingInitialNumbers = numbers.slice(numbersConsumed);
-                yield* this.findCombinationsRecursive(initialAst, remainingInitialNumbers, target, 0);
             }
         } catch (error) {
             if (error instanceof Error && error.message === 'CANCELLED') {
-                // Operation was cancelled
+                this.stopReason = 'cancelled';
             } else {
                 console.error("Solver error:", error); // Log other errors
                 throw error; // Rethrow if not a cancellation
             }
         }
 
+        // 完整覆盖时搜索空间就是实际的尝试次数
+        if (this.stopReason === undefined) this.searchSpace = this.attempts;
         const duration = Date.now() - this.startTime;
         yield {
             type: 'complete',
             attempts: this.attempts,
             eta: 0,
             progress: 1,
-            duration
+            duration,
+            searchSpace: this.searchSpace,
+            ...this.approximationReport()
         };
 
         return {
             expression: this.solutions[0] || new ExpressionNode(new NumberNode(NaN), target), // Default if no solution
             attempts: this.attempts,
             duration,
-            found: this.solutions.length > 0
+            found: this.solutions.length > 0 || this.targetHits > 0,
+            solutions: [...this.solutions],
+            complete: this.stopReason === undefined,
+            stopReason: this.stopReason,
+            status: this.status(),
+            coverage: this.coverage(),
+            approximations: [...this.approximations],
+            ...this.countReport()
+        };
+    }
+
+    // 按当前配置估计搜索空间规模 (不计数值剪枝的尝试次数)
+    estimateSearchSpace(numbers: number[]): number {
+        if (numbers.length === 0) return 0;
+        return this.estimateOrderingSpace(numbers.length) * countOrderings(numbers, this.config.ordering, this.config.precedence);
+    }
+
+    // 单个数字顺序的搜索空间估计
+    private estimateOrderingSpace(length: number): number {
+        const shape = this.spaceShape();
+        const share = 1 / this.config.partition.count;
+        switch (this.config.strategy) {
+            case 'tree':
+            case 'cost':
+                return sum(treeRootBranches(length, shape)) * share;
+            case 'interval':
+                return intervalWork(length, intervalSpan(length), () => undefined, shape);
+            default:
+                return sum(chainPaths(length, shape)) * share;
+        }
+    }
+
+    private spaceShape(): SpaceShape {
+        return {
+            binary: this.enabledBinaryOperators().length,
+            unary: this.enabledUnaryOperators().length,
+            concat: this.config.enableConcatenation,
+            maxDepth: this.config.maxDepth,
         };
     }
 
+    // 记录有理数目标的精确值, 返回搜索使用的数值目标; 等式右侧为数字序列时返回 NaN, 由批量状态判定
+    private prepareGoal(goal: SolveTarget): number {
+        if (Array.isArray(goal)) {
+            if (this.config.counting !== 'off') throw new Error('Counting mode cannot be combined with equations');
+            return NaN;
+        }
+        if (goal instanceof Rational) {
+            this.exactTarget = goal;
+            this.targetRight = goal.isInteger() ? undefined : fractionNode(goal);
+            return goal.toNumber();
+        }
+        return goal;
+    }
+
+    // 枚举右侧数字上的所有表达式, 每个值保留节点最少的一个, 作为左侧批量求解的目标
+    private* prepareEquation(right: number[]): Generator<SolverReport, void, unknown> {
+        const batch: BatchState = {targets: new Map(), buckets: new Map(), satisfied: 0, shared: true};
+        this.batch = batch;
+        if (right.length === 0) return;
+        for (const ast of this.enumerateTrees(right, this.config.maxDepth)) {
+            if (this.shouldStop()) return;
+            if (!ast) continue;
+            this.attempts++;
+            yield* this.progressCheckpoint();
+            let value: number;
+            let exact: Rational | undefined;
+            try {
+                if (this.config.arithmetic === 'exact') {
+                    exact = this.evaluateExactWithCache(ast);
+                    value = exact.toNumber();
+                } else {
+                    value = intervalKey(this.evaluateWithCache(ast));
+                }
+            } catch {
+                continue;
+            }
+            if (!isFinite(value)) continue;
+            const existing = batch.targets.get(value);
+            if (existing) {
+                if (nodeCount(existing.right!) > nodeCount(ast)) existing.right = ast;
+                continue;
+            }
+            addBatchTarget(batch, value, {solutions: [], keys: new Set(), exact, right: ast});
+        }
+    }
+
+    // 恢复快照中的统计与已找到的解, 遍历位置在搜索过程中由 completedBefore 跳过
+    private restore(snapshot: SolverSnapshot): void {
+        this.attempts = snapshot.attempts;
+        this.startTime -= snapshot.duration;
+        this.searchSpace = snapshot.searchSpace;
+        for (const data of snapshot.solutions) {
+            const solution = reviveNode(data) as ExpressionNode;
+            this.solutionKeys.add(this.solutionKey(solution));
+            this.solutions.push(solution);
+        }
+        this.approximations = snapshot.approximations.map(({expression, value, distance}) => ({
+            expression: reviveNode(expression) as ExpressionNode, value, distance
+        }));
+        this.resumePoint = {...snapshot.position};
+        this.checkpoint = {
+            position: {...snapshot.position},
+            attempts: snapshot.attempts,
+            duration: snapshot.duration,
+            searchSpace: snapshot.searchSpace,
+        };
+    }
+
+    // 恢复时判断顶层分支是否在检查点之前已经完成; 到达检查点后恢复分支计数并停止跳过
+    private completedBefore(branch: number): boolean {
+        if (!this.resumePoint) return false;
+        if (branch < this.resumePoint.branch) return true;
+        this.branchCounter = this.resumePoint.branchCounter;
+        this.resumePoint = undefined;
+        return false;
+    }
+
+    // 记录检查点: 当前顺序中前 branch 个顶层分支 (或前 ordering 个顺序) 已经完成; 中途停止时不记录
+    private markCompleted(ordering: number, branch: number, costRange?: [number | null, number]): void {
+        if (this.stopReason !== undefined) return;
+        this.checkpoint = {
+            position: {ordering, branch, branchCounter: this.branchCounter, ...(costRange && {costRange})},
+            attempts: this.attempts,
+            duration: Date.now() - this.startTime,
+            searchSpace: this.searchSpace,
+        };
+    }
+
+    // 一段搜索结束后用实际尝试次数替换其估计; 中途停止的分支保留估计
+    private settle(estimate: number | undefined, attemptsBefore: number): void {
+        if (estimate === undefined || this.stopReason !== undefined) return;
+        this.searchSpace += this.attempts - attemptsBefore - estimate;
+    }
+
+    private status(): SolverStatus {
+        if (this.solutions.length > 0 || this.targetHits > 0) return 'solved';
+        switch (this.stopReason) {
+            case 'timeout':
+            case 'attempt-limit':
+            case 'cancelled':
+                return this.stopReason;
+            default:
+                return 'proved-unsolvable';
+        }
+    }
+
+    // 按当前配置允许的运算与限制, 即无解结论的适用范围
+    coverage(): RuleCoverage {
+        return {
+            strategy: this.config.strategy,
+            ordering: this.config.ordering,
+            arithmetic: this.config.arithmetic,
+            binaryOperators: this.enabledBinaryOperators(),
+            unaryOperators: this.enabledUnaryOperators(),
+            concatenation: this.config.enableConcatenation,
+            maxConcatLength: MAX_CONCAT_LENGTH,
+            maxDepth: this.config.maxDepth,
+            maxFactorialDepth: this.config.maxFactorialDepth,
+            maxFactorialOperand: this.config.maxFactorialOperand,
+        };
+    }
+
+    private* searchChain(numbers: number[], target: number): Generator<SolverReport, void, unknown> {
+        // Initial AST creation considering order and concatenation ---
+        const initialAstCreationPaths: Array<{ ast: ASTNode, numbersConsumed: number }> = [];
+
+        // Path 1: First number itself
+        initialAstCreationPaths.push({ast: new NumberNode(numbers[0]), numbersConsumed: 1});
+
+        // Path 2: Concatenation from the beginning (if enabled)
+        if (this.config.enableConcatenation) {
+            // Concatenate 2 to 4 numbers (or up to numbers.length)
+            for (let len = 2; len <= Math.min(MAX_CONCAT_LENGTH, numbers.length); len++) {
+                const initialNumsToConcat = numbers.slice(0, len);
+                initialAstCreationPaths.push({ast: new ConcatNode(initialNumsToConcat), numbersConsumed: len});
+            }
+        }
+
+        const estimates = chainPaths(numbers.length, this.spaceShape());
+        for (const [index, path] of initialAstCreationPaths.entries()) {
+            // Early exit if enough solutions are found or other limits reached
+            if (this.shouldStop()) break;
+            if (this.completedBefore(index)) continue;
+            const {ast: initialAst, numbersConsumed} = path;
+            const remainingInitialNumbers = numbers.slice(numbersConsumed);
+            const before = this.attempts;
+            yield* this.findCombinationsRecursive(initialAst, remainingInitialNumbers, target, 0);
+            this.settle(estimates[index] / this.config.partition.count, before);
+            this.markCompleted(this.orderingIndex, index + 1);
+        }
+    }
+
+    // 枚举所有二叉树形状, 每个完整表达式计为一次尝试
+    private* searchTree(numbers: number[], target: number): Generator<SolverReport, void, unknown> {
+        this.rootBranchSpace = treeRootBranches(numbers.length, this.spaceShape()).map(count => count / this.config.partition.count);
+        for (const ast of this.enumerateTrees(numbers, this.config.maxDepth, Infinity, true)) {
+            if (this.shouldStop()) return;
+            if (!ast) continue;
+
+            this.attempts++;
+            yield* this.progressCheckpoint();
+            yield* this.acceptCandidate(ast, target);
+        }
+    }
+
+    // 以代价上限迭代加深: 每轮枚举代价不超过上限的树, 只接受高于上一轮上限的部分,
+    // 同一轮内的解排序后再产出, 因此解整体按代价升序
+    private* searchByCost(numbers: number[], target: number, resumeRange?: [number | null, number]): Generator<SolverReport, void, unknown> {
+        let lower = resumeRange ? resumeRange[0] ?? -Infinity : -Infinity;
+        let upper = resumeRange ? resumeRange[1] : -Infinity;
+        while (!this.shouldStop()) {
+            this.nextCostBound = Infinity;
+            const found: Array<{ ast: ASTNode, cost: number }> = [];
+            for (const sequence of orderings(numbers, this.config.ordering, this.config.precedence)) {
+                for (const ast of this.enumerateTrees(sequence, this.config.maxDepth, upper, true)) {
+                    if (this.shouldStop()) break;
+                    // 被剪掉的树与上一轮已接受的树都不计尝试, 但仍要到达检查点, 否则整轮都不会让出控制
+                    yield* this.progressCheckpoint();
+                    if (!ast) continue;
+                    const cost = this.config.cost(ast);
+                    if (cost <= lower) continue;
+
+                    this.attempts++;
+                    if (this.checkSolution(ast, target)) {
+                        found.push({ast, cost});
+                    } else {
+                        yield* this.acceptCandidate(ast, target);
+                    }
+                }
+            }
+
+            found.sort((a, b) => a.cost - b.cost);
+            for (const {ast} of found) {
+                if (this.solutionLimitReached()) break;
+                yield* this.acceptCandidate(ast, target);
+            }
+            // 没有被剪掉的树时搜索空间已经耗尽
+            if (this.nextCostBound === Infinity) break;
+            lower = upper;
+            upper = this.nextCostBound;
+            this.markCompleted(0, 0, [lower === -Infinity ? null : lower, upper]);
+        }
+    }
+
+    // 生成高度不超过 budget 且代价不超过 maxCost 的所有表达式树;
+    // root 为真时按分片过滤顶层分支 (根部的叶子, 或切分位置与左子树的组合)
+    // 产出 undefined 表示到达检查点时正在剪枝, 调用方借此报告进度并响应取消
+    private* enumerateTrees(numbers: number[], budget: number, maxCost = Infinity, root = false): Generator<ASTNode | undefined, void, unknown> {
+        if (this.cancelled) throw new Error('CANCELLED');
+        if (budget <= 0 || this.shouldStop()) return;
+
+        // 叶子: 单个数字, 或连接而成的多位数
+        const leaf = numbers.length === 1
+            ? new NumberNode(numbers[0])
+            : this.config.enableConcatenation && numbers.length <= MAX_CONCAT_LENGTH ? new ConcatNode(numbers) : undefined;
+        let before = this.attempts;
+        const skipLeaf = root && this.completedBefore(0);
+        if (leaf && !skipLeaf && (!root || this.ownsBranch())) {
+            yield* this.withUnaryOperators(leaf, 1, budget, maxCost);
+        }
+        if (root && !skipLeaf) this.finishRootBranch(0, before);
+
+        // 内部节点: 在每个位置切分, 左右两侧分别递归
+        for (let split = 1; split < numbers.length; split++) {
+            if (root && this.completedBefore(split)) continue;
+            before = this.attempts;
+            for (const left of this.enumerateTrees(numbers.slice(0, split), budget - 1, maxCost)) {
+                if (!left) {
+                    yield undefined;
+                    continue;
+                }
+                if (root && !this.ownsBranch()) continue;
+                for (const right of this.enumerateTrees(numbers.slice(split), budget - 1, maxCost)) {
+                    if (!right) {
+                        yield undefined;
+                        continue;
+                    }
+                    for (const op of this.enabledBinaryOperators()) {
+                        if (!this.canApplyBinary(left, op, right)) continue;
+                        const height = Math.max(treeHeight(left), treeHeight(right)) + 1;
+                        yield* this.withUnaryOperators(new BinaryOpNode(left, op, right), height, budget, maxCost);
+                    }
+                }
+            }
+            if (root) this.finishRootBranch(split, before);
+        }
+    }
+
+    // tree 策略的顶层分支结束: 修正搜索空间估计并记录检查点; cost 策略按轮记录, 不在这里处理
+    private finishRootBranch(branch: number, attemptsBefore: number): void {
+        if (!this.rootBranchSpace) return;
+        this.settle(this.rootBranchSpace[branch], attemptsBefore);
+        this.markCompleted(this.orderingIndex, branch + 1);
+    }
+
+    // 产出节点本身, 以及套上一元运算后的变体 (同一运算不连续叠加, 阶乘除外)
+    private* withUnaryOperators(node: ASTNode, height: number, budget: number, maxCost: number): Generator<ASTNode | undefined, void, unknown> {
+        if (maxCost !== Infinity) {
+            // 代价随子树单调, 超出上限的节点及其所有扩展都可剪掉
+            const cost = this.config.cost(node);
+            if (cost > maxCost) {
+                this.nextCostBound = Math.min(this.nextCostBound, cost);
+                if (Date.now() - this.lastReportTime >= this.checkpointInterval) yield undefined;
+                return;
+            }
+        }
+        yield node;
+        if (height >= budget) return;
+        for (const op of this.enabledUnaryOperators()) {
+            if (op === '√' && node instanceof UnaryOpNode && node.operator === '√') continue;
+            if (!this.canApplyUnary(op, node)) continue;
+            yield* this.withUnaryOperators(new UnaryOpNode(op, node), height + 1, budget, maxCost);
+        }
+    }
+
+    // 按长度递增物化较短区间的可达值, 每个值只保留高度最低的见证表达式;
+    // 较长区间不物化, 而是从已物化的一侧反解另一侧所需的值 (见 reachInterval)
+    private* searchInterval(numbers: number[], target: number): Generator<SolverReport, void, unknown> {
+        const binaryOperators = this.enabledBinaryOperators();
+        const span = intervalSpan(numbers.length);
+        // table[start][end] 对应 numbers.slice(start, end)
+        const table: Map<number, IntervalEntry>[][] = numbers.map(() => []);
+        // 已物化区间的大小已知, 每一轮都据此重新估计剩余的工作量
+        const estimate = () => {
+            const remaining = intervalWork(numbers.length, span, (start, end) => table[start][end]?.size, this.spaceShape());
+            this.searchSpace = this.attempts + remaining + this.orderingsLeft * this.orderingSpace;
+        };
+
+        for (let length = 1; length <= span; length++) {
+            estimate();
+            for (let start = 0; start + length <= numbers.length; start++) {
+                const end = start + length;
+                const slice = new Map<number, IntervalEntry>();
+
+                if (length === 1) {
+                    this.addIntervalEntry(slice, numbers[start], 1, () => new NumberNode(numbers[start]));
+                } else if (this.config.enableConcatenation && length <= MAX_CONCAT_LENGTH) {
+                    const digits = numbers.slice(start, end);
+                    this.addIntervalEntry(slice, parseInt(digits.join('')), 1, () => new ConcatNode(digits));
+                }
+
+                for (const [left, right] of intervalPairs(table, start, end)) {
+                    const height = Math.max(left.height, right.height) + 1;
+                    if (height > this.config.maxDepth) continue;
+                    for (const op of binaryOperators) {
+                        if (this.cancelled) throw new Error('CANCELLED');
+                        if (this.shouldStop()) return;
+
+                        this.attempts++;
+                        yield* this.progressCheckpoint();
+
+                        if (!this.binaryAllowed(op, left.value, right.value)) continue;
+                        const value = applyBinaryOperator(op, left.value, right.value);
+                        if (!isFinite(value)) continue;
+                        this.addIntervalEntry(slice, value, height, () => new BinaryOpNode(left.node, op, right.node));
+                    }
+                }
+
+                yield* this.closeIntervalUnary(slice);
+                table[start][end] = slice;
+            }
+        }
+
+        estimate();
+        const memo = new Map<string, IntervalEntry | null>();
+        if (this.batch) {
+            // 各目标共用已物化的区间表与查询缓存
+            for (const [batchTarget, {solutions}] of this.batch.targets) {
+                if (solutions.length > 0) continue;
+                if (this.shouldStop()) return;
+                const hit = yield* this.reachInterval(table, numbers, 0, numbers.length, batchTarget, memo);
+                if (hit) yield* this.acceptCandidate(hit.node, batchTarget);
+            }
+            return;
+        }
+        const entry = yield* this.reachInterval(table, numbers, 0, numbers.length, target, memo);
+        if (entry) {
+            yield* this.acceptCandidate(entry.node, target);
+        }
+        if (this.config.nearest > 0) {
+            yield* this.nearestInInterval(table, numbers, target, memo);
+        }
+    }
+
+    // 整段已物化时直接扫描, 否则查询目标附近的整数
+    private* nearestInInterval(
+        table: Map<number, IntervalEntry>[][],
+        numbers: number[],
+        target: number,
+        memo: Map<string, IntervalEntry | null>
+    ): Generator<SolverReport, void, unknown> {
+        const whole = table[0][numbers.length];
+        if (whole) {
+            for (const entry of whole.values()) this.recordApproximation(entry.node, entry.value, target);
+            return;
+        }
+        // 近似值只是附带结果, 查询时触发的限制不影响主目标的结论
+        const stopReason = this.stopReason;
+        for (let offset = 1; offset <= MAX_NEAREST_OFFSET && !this.shouldStop(); offset++) {
+            for (const value of [target - offset, target + offset]) {
+                const entry = yield* this.reachInterval(table, numbers, 0, numbers.length, value, memo);
+                if (entry) this.recordApproximation(entry.node, entry.value, target);
+            }
+            if (this.approximations.length >= this.config.nearest) break;
+        }
+        // 查询中途可能让出控制, 其间的取消仍需生效
+        if (!this.cancelled) this.stopReason = stopReason;
+    }
+
+    // 是否应停止搜索, 首次触发时记录原因; 只在仍有待搜索的状态时调用
+    private shouldStop(): boolean {
+        if (this.stopReason !== undefined) return true;
+        if (this.cancelled) {
+            this.stopReason = 'cancelled';
+        } else if (Date.now() - this.startTime >= this.config.timeout) {
+            this.stopReason = 'timeout';
+        } else if (this.config.maxAttempts > 0 && this.attempts >= this.config.maxAttempts) {
+            this.stopReason = 'attempt-limit';
+        } else if (this.solutionLimitReached()) {
+            this.stopReason = 'solution-limit';
+        }
+        return this.stopReason !== undefined;
+    }
+
+    // 当前顶层分支是否属于本分片
+    private ownsBranch(): boolean {
+        const {index, count} = this.config.partition;
+        return count === 1 || this.branchCounter++ % count === index;
+    }
+
+    private solutionLimitReached(): boolean {
+        if (this.config.exhaustive || this.config.maxSolutions <= 0) return false;
+        if (this.batch && !this.batch.shared) return this.batch.satisfied === this.batch.targets.size;
+        return this.solutions.length >= this.config.maxSolutions;
+    }
+
+    // 查询区间能否得到 value; 未物化的长区间只在根部尝试一次一元运算
+    private* reachInterval(
+        table: Map<number, IntervalEntry>[][],
+        numbers: number[],
+        start: number,
+        end: number,
+        value: number,
+        memo: Map<string, IntervalEntry | null>
+    ): Generator<SolverReport, IntervalEntry | undefined, unknown> {
+        const materialized = table[start][end];
+        if (materialized) return materialized.get(intervalKey(value));
+
+        const key = `${start}:${end}:${intervalKey(value)}`;
+        const cached = memo.get(key);
+        if (cached !== undefined) return cached ?? undefined;
+
+        let best = yield* this.reachIntervalRoot(table, numbers, start, end, value, memo);
+        for (const op of this.enabledUnaryOperators()) {
+            for (const operandValue of invertUnary(op, value, this.config.maxFactorialDepth > 0 ? this.config.maxFactorialOperand : 0)) {
+                const inner = yield* this.reachIntervalRoot(table, numbers, start, end, operandValue, memo);
+                if (!inner || inner.height >= this.config.maxDepth) continue;
+                if (best && best.height <= inner.height + 1) continue;
+                if (!this.unaryAllowed(op, inner.node, inner.value)) continue;
+                best = {value, node: new UnaryOpNode(op, inner.node), height: inner.height + 1};
+            }
+        }
+
+        // 超限时结果不完整, 不写入缓存
+        if (this.stopReason === undefined) memo.set(key, best ?? null);
+        return best;
+    }
+
+    // 根节点为叶子或二元运算时的查询
+    private* reachIntervalRoot(
+        table: Map<number, IntervalEntry>[][],
+        numbers: number[],
+        start: number,
+        end: number,
+        value: number,
+        memo: Map<string, IntervalEntry | null>
+    ): Generator<SolverReport, IntervalEntry | undefined, unknown> {
+        if (this.cancelled) throw new Error('CANCELLED');
+        let best: IntervalEntry | undefined;
+
+        if (this.config.enableConcatenation && end - start <= MAX_CONCAT_LENGTH) {
+            const digits = numbers.slice(start, end);
+            const concatValue = parseInt(digits.join(''));
+            if (intervalKey(concatValue) === intervalKey(value)) {
+                best = {value: concatValue, node: new ConcatNode(digits), height: 1};
+            }
+        }
+
+        for (let split = start + 1; split < end; split++) {
+            const leftTable = table[start][split];
+            const rightTable = table[split][end];
+            // 两侧至少有一侧已物化, 遍历较小的已物化一侧
+            const knownIsLeft = leftTable !== undefined && (rightTable === undefined || leftTable.size <= rightTable.size);
+            const known = knownIsLeft ? leftTable : rightTable;
+
+            for (const entry of known.values()) {
+                for (const op of this.enabledBinaryOperators()) {
+                    if (this.shouldStop()) return best;
+                    if (start === 0 && end === numbers.length && !this.ownsBranch()) continue;
+                    this.attempts++;
+                    yield* this.progressCheckpoint();
+
+                    const candidates: IntervalEntry[] = [];
+                    const needed = knownIsLeft ? invertRight(op, entry.value, value) : invertLeft(op, entry.value, value);
+                    if (needed !== undefined) {
+                        const other = knownIsLeft
+                            ? yield* this.reachInterval(table, numbers, split, end, needed, memo)
+                            : yield* this.reachInterval(table, numbers, start, split, needed, memo);
+                        if (other) candidates.push(other);
+                    } else if (op === '%' && leftTable && rightTable) {
+                        // 取模无法反解, 仅在两侧都已物化时逐对检查
+                        candidates.push(...(knownIsLeft ? rightTable : leftTable).values());
+                    }
+
+                    for (const other of candidates) {
+                        const [left, right] = knownIsLeft ? [entry, other] : [other, entry];
+                        const height = Math.max(left.height, right.height) + 1;
+                        if (height > this.config.maxDepth || (best && best.height <= height)) continue;
+                        if (!this.binaryAllowed(op, left.value, right.value)) continue;
+                        // 反解存在浮点误差, 用正向计算复核
+                        const actual = applyBinaryOperator(op, left.value, right.value);
+                        if (intervalKey(actual) !== intervalKey(value)) continue;
+                        best = {value: actual, node: new BinaryOpNode(left.node, op, right.node), height};
+                    }
+                }
+            }
+        }
+        return best;
+    }
+
+    private addIntervalEntry(slice: Map<number, IntervalEntry>, value: number, height: number, build: () => ASTNode): IntervalEntry | undefined {
+        const key = intervalKey(value);
+        const existing = slice.get(key);
+        if (existing && existing.height <= height) return undefined;
+        const entry = {value, node: build(), height};
+        slice.set(key, entry);
+        return entry;
+    }
+
+    // 对区间内的所有值反复套用一元运算, 直到不再产生新值
+    private* closeIntervalUnary(slice: Map<number, IntervalEntry>): Generator<SolverReport, void, unknown> {
+        const unaryOperators = this.enabledUnaryOperators();
+        if (unaryOperators.length === 0) return;
+        const pending = [...slice.values()];
+        while (pending.length > 0) {
+            if (this.cancelled) throw new Error('CANCELLED');
+            yield* this.progressCheckpoint();
+            const entry = pending.pop()!;
+            if (entry.height >= this.config.maxDepth) continue;
+            for (const op of unaryOperators) {
+                if (op === '√' && entry.node instanceof UnaryOpNode && entry.node.operator === '√') continue;
+                if (!this.unaryAllowed(op, entry.node, entry.value)) continue;
+                const value = applyUnaryOperator(op, entry.value);
+                if (!isFinite(value)) continue;
+                const added = this.addIntervalEntry(slice, value, entry.height + 1, () => new UnaryOpNode(op, entry.node));
+                if (added) pending.push(added);
+            }
+        }
+    }
+
+    private enabledUnaryOperators(): UnaryOperator[] {
+        const operators: Array<{ op: UnaryOperator, enabled: boolean }> = [
+            {op: '!', enabled: this.config.enableFactorial},
+            {op: '√', enabled: this.config.enableSquareRoot},
+            {op: '-', enabled: this.config.enableNegation}
+        ];
+        return operators.filter(o => o.enabled).map(o => o.op);
+    }
+
+    private enabledBinaryOperators(): BinaryOperator[] {
+        const operators: Array<{ op: BinaryOperator, enabled: boolean }> = [
+            {op: '+', enabled: this.config.enableAddition},
+            {op: '-', enabled: this.config.enableSubtraction},
+            {op: '*', enabled: this.config.enableMultiplication},
+            {op: '/', enabled: this.config.enableDivision},
+            {op: '%', enabled: this.config.enableModulo},
+            {op: '^', enabled: this.config.enablePower}
+        ];
+        return operators.filter(o => o.enabled).map(o => o.op);
+    }
+
+    // 一元运算的剪枝规则
+    private canApplyUnary(op: UnaryOperator, node: ASTNode): boolean {
+        try {
+            return this.unaryAllowed(op, node, this.evaluateWithCache(node));
+        } catch {
+            return false;
+        }
+    }
+
+    private unaryAllowed(op: UnaryOperator, node: ASTNode, value: number): boolean {
+        if (op === '!' && (this.getFactorialDepth(node) >= this.config.maxFactorialDepth || value < 0 || !Number.isInteger(value) || value > this.config.maxFactorialOperand)) return false;
+        if (op === '!' && (Math.abs(value - 2) < 1e-10 || Math.abs(value - 1) < 1e-10)) return false;
+        if (op === '√' && value < 0) return false;
+        if (op === '√' && Math.abs(value - 1) < 1e-10) return false;
+        if (op === '-' && node instanceof UnaryOpNode && node.operator === '-') return false;
+        return true;
+    }
+
+    // 二元运算的剪枝规则
+    private canApplyBinary(left: ASTNode, op: BinaryOperator, right: ASTNode): boolean {
+        try {
+            if (op !== '/' && op !== '%' && op !== '^') return true;
+            return this.binaryAllowed(op, this.evaluateWithCache(left), this.evaluateWithCache(right));
+        } catch {
+            return false;
+        }
+    }
+
+    private binaryAllowed(op: BinaryOperator, lhsVal: number, rhsVal: number): boolean {
+        if (op === '/' || op === '%') {
+            if (Math.abs(rhsVal) < 1e-12) return false; // Division/Modulo by zero (use small epsilon)
+        }
+        if (op === '^') {
+            if (Math.abs(lhsVal - 1) < 1e-12) return false; // Avoid 1^x
+            if (Math.abs(lhsVal) < 1e-12 && rhsVal < 0) return false; // Avoid 0 to a negative power
+            if (lhsVal < 0 && Math.abs(rhsVal % 1) > 1e-12) return false; // Avoid negative base to fractional power
+        }
+        return true;
+    }
+
+    // 完整表达式的检查, 找到新解时产出报告
+    private* acceptCandidate(ast: ASTNode, target: number): Generator<SolverReport, void, unknown> {
+        if (this.config.counting !== 'off') {
+            this.countCandidate(ast, target);
+            return;
+        }
+        if (this.batch) {
+            yield* this.acceptBatchCandidate(ast, this.batch);
+            return;
+        }
+        if (!this.checkSolution(ast, target)) {
+            if (this.config.nearest > 0) {
+                try {
+                    this.recordApproximation(ast, this.evaluateWithCache(ast), target);
+                } catch {
+                    // 无法求值的表达式不参与近似
+                }
+            }
+            return;
+        }
+        const solution = new ExpressionNode(ast, target, this.targetRight);
+        const key = this.solutionKey(solution);
+        if (this.solutionKeys.has(key)) return;
+        this.solutionKeys.add(key);
+        this.solutions.push(solution);
+        yield {...this.createProgressReport(), type: 'solution', currentExpression: solution};
+    }
+
+    // 批量求解: 按值找到可能命中的目标, 再逐个精确判定
+    private* acceptBatchCandidate(ast: ASTNode, batch: BatchState): Generator<SolverReport, void, unknown> {
+        let value: number;
+        try {
+            value = this.evaluateWithCache(ast);
+        } catch {
+            return;
+        }
+        const {maxSolutions, exhaustive} = this.config;
+        // 与值只差浮点误差的目标, 其所在的桶必为 floor(value) 或 ceil(value), 如 0.5 与 4/3 - 5/6
+        const low = Math.floor(value);
+        const high = Math.ceil(value);
+        const targets = batch.buckets.get(low) ?? [];
+        for (const target of low === high ? targets : [...targets, ...batch.buckets.get(high) ?? []]) {
+            const entry = batch.targets.get(target)!;
+            if (batch.shared ? this.solutionLimitReached() : !exhaustive && maxSolutions > 0 && entry.solutions.length >= maxSolutions) continue;
+            if (!this.checkSolution(ast, target, entry.exact)) continue;
+            const solution = new ExpressionNode(ast, target, entry.right);
+            const key = this.solutionKey(solution);
+            if (entry.keys.has(key)) continue;
+            entry.keys.add(key);
+            entry.solutions.push(solution);
+            if (batch.shared) this.solutions.push(solution);
+            else if (entry.solutions.length === maxSolutions) batch.satisfied++;
+            yield {...this.createProgressReport(), type: 'solution', currentExpression: solution};
+        }
+    }
+
+    // 计数模式下只记录命中的分组与去重键, 不构造 ExpressionNode
+    private countCandidate(ast: ASTNode, target: number): void {
+        let group: string;
+        let hit: boolean;
+        if (this.config.counting === 'operators') {
+            if (!this.checkSolution(ast, target)) return;
+            group = operatorSet(ast);
+            hit = true;
+        } else {
+            const value = this.integerValue(ast);
+            if (value === undefined) return;
+            group = value;
+            hit = this.checkSolution(ast, target);
+        }
+        // raw 模式下枚举出的树结构互不相同, 直接计数
+        if (this.config.dedupe === 'canonical') {
+            const key = `${group}\u0000${canonicalKey(ast)}`;
+            if (this.countedKeys.has(key)) return;
+            this.countedKeys.add(key);
+        }
+        this.counts.set(group, (this.counts.get(group) ?? 0) + 1);
+        if (hit) this.targetHits++;
+    }
+
+    // 表达式的整数值 (十进制字符串), 不是整数或无法求值时返回 undefined
+    private integerValue(ast: ASTNode): string | undefined {
+        try {
+            if (this.config.arithmetic === 'exact') {
+                const value = this.evaluateExactWithCache(ast);
+                return value.isInteger() ? value.toString() : undefined;
+            }
+            const value = this.evaluateWithCache(ast);
+            const rounded = Math.round(value);
+            return Math.abs(value - rounded) < 1e-9 ? String(rounded) : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private countReport(): Pick<SolutionResult, 'counts'> {
+        if (this.config.counting === 'off') return {};
+        return {counts: Object.fromEntries(this.counts)};
+    }
+
+    private solutionKey(solution: ExpressionNode): string {
+        return this.config.dedupe === 'canonical' ? canonicalKey(solution.left) : solution.toString();
+    }
+
+    // 维护按距离排序的前 nearest 个近似值, 相同的值只保留最先找到的表达式
+    private recordApproximation(ast: ASTNode, value: number, target: number): void {
+        const distance = Math.abs(value - target);
+        if (!isFinite(distance) || distance < 1e-9) return;
+        const worst = this.approximations[this.config.nearest - 1];
+        if (worst && worst.distance <= distance) return;
+        if (this.approximations.some(item => intervalKey(item.value) === intervalKey(value))) return;
+
+        const approximation = {expression: new ExpressionNode(ast, value), value, distance};
+        const index = this.approximations.findIndex(item => item.distance > distance);
+        this.approximations.splice(index < 0 ? this.approximations.length : index, 0, approximation);
+        this.approximations.length = Math.min(this.approximations.length, this.config.nearest);
+    }
+
+    private approximationReport(): Pick<SolverReport, 'approximations'> {
+        return this.config.nearest > 0 ? {approximations: [...this.approximations]} : {};
+    }
+
     private reset(): void {
         this.cache.clear();
+        this.exactCache.clear();
         this.attempts = 0;
         this.solutions = [];
+        this.solutionKeys.clear();
+        this.approximations = [];
+        this.counts.clear();
+        this.countedKeys.clear();
+        this.targetHits = 0;
+        this.batch = undefined;
+        this.exactTarget = undefined;
+        this.targetRight = undefined;
+        this.branchCounter = 0;
+        this.rootBranchSpace = undefined;
+        this.orderingIndex = 0;
+        this.checkpoint = undefined;
+        this.resumePoint = undefined;
         this.cancelled = false;
         this.lastReportTime = 0;
+        this.stopReason = undefined;
     }
 
     // --- NEW RECURSIVE FUNCTION ---
@@ -174,83 +1384,47 @@ export class Solver {
         depth: number
     ): Generator<SolverReport, void, unknown> {
         if (this.cancelled) throw new Error('CANCELLED');
-        if (Date.now() - this.startTime >= this.config.timeout) return;
         if (depth >= this.config.maxDepth) return;
+        if (this.shouldStop()) return;
+        if (depth === CHAIN_PARTITION_DEPTH && !this.ownsBranch()) return;
 
         this.attempts++; // Count each state visited as an attempt
 
-        if (this.attempts >= this.config.maxAttempts && this.config.maxAttempts > 0) return;
-
-
-        if (Date.now() - this.lastReportTime >= this.config.reportInterval) {
-            yield this.createProgressReport();
-            this.lastReportTime = Date.now();
-        }
+        yield* this.progressCheckpoint();
 
         // Base Case: All numbers have been used
         if (remainingNumbers.length === 0) {
-            if (this.checkSolution(currentAst, target)) {
-                const solution = new ExpressionNode(currentAst, target);
-                // Avoid adding string-wise duplicate solutions
-                if (!this.solutions.some(s => s.toString() === solution.toString())) {
-                    this.solutions.push(solution);
-                    yield {
-                        type: 'solution',
-                        attempts: this.attempts,
-                        currentExpression: solution,
-                        eta: this.calculateETA(0),
-                        progress: this.calculateProgress(0),
-                        duration: Date.now() - this.startTime
-                    };
-                }
-            }
+            yield* this.acceptCandidate(currentAst, target);
             return;
         }
 
         // Option 1: Apply unary operator to currentAst, then continue with the SAME remainingNumbers
-        const unaryOperators: Array<{ op: '!' | '√' | '-', enabled: boolean }> = [
-            {op: '!', enabled: this.config.enableFactorial},
-            {op: '√', enabled: this.config.enableSquareRoot},
-            {op: '-', enabled: this.config.enableNegation}
-        ];
+        const unaryOperators = this.enabledUnaryOperators();
 
-        for (const {op: unaryOp, enabled} of unaryOperators) {
-            if (!enabled) continue;
-            if (this.solutions.length >= 10 && this.config.maxAttempts > 0 && this.config.maxAttempts <= this.attempts) return;
+        for (const unaryOp of unaryOperators) {
+            if (this.shouldStop()) return;
+            if (!this.canApplyUnary(unaryOp, currentAst)) continue;
 
-            try {
-                const currentValue = this.evaluateWithCache(currentAst);
-                if (unaryOp === '!' && (this.getFactorialDepth(currentAst) >= this.config.maxFactorialDepth || currentValue < 0 || !Number.isInteger(currentValue) || currentValue > 15)) continue;
-                if (unaryOp === '!' && (Math.abs(currentValue - 2) < 1e-10 || Math.abs(currentValue - 1) < 1e-10)) continue;
-                if (unaryOp === '√' && currentValue < 0) continue;
-                if (unaryOp === '√' && Math.abs(currentValue - 1) < 1e-10) continue;
-                if (unaryOp === '-' && currentAst instanceof UnaryOpNode && currentAst.operator === '-') continue;
-
-                const astWithUnaryOp = new UnaryOpNode(unaryOp, currentAst);
-                yield* this.findCombinationsRecursive(astWithUnaryOp, remainingNumbers, target, depth + 1);
-            } catch (e) {
-                /* Evaluation error during applicability check, skip */
-            }
+            const astWithUnaryOp = new UnaryOpNode(unaryOp, currentAst);
+            yield* this.findCombinationsRecursive(astWithUnaryOp, remainingNumbers, target, depth + 1);
         }
 
         // Option 2: Form a right-hand side (RHS) from remainingNumbers, combine with currentAst using a binary operator
-        if (remainingNumbers.length === 0) return; // Should be caught by base case, defensive
-
         const possibleRhsInfos: Array<{ node: ASTNode, numbersConsumedCount: number }> = [];
 
         // B1: RHS is the next single number
         possibleRhsInfos.push({node: new NumberNode(remainingNumbers[0]), numbersConsumedCount: 1});
-//
+
         // B2: RHS is a concatenation of the next few numbers (if enabled and more than 1 number can be concatenated)
         if (this.config.enableConcatenation && remainingNumbers.length >= 2) {
-            for (let len = 2; len <= Math.min(4, remainingNumbers.length); len++) { // Concatenate 2 to 4 numbers
+            for (let len = 2; len <= Math.min(MAX_CONCAT_LENGTH, remainingNumbers.length); len++) { // Concatenate 2 to 4 numbers
                 const numsToConcat = remainingNumbers.slice(0, len);
                 possibleRhsInfos.push({node: new ConcatNode(numsToConcat), numbersConsumedCount: len});
             }
         }
 
         for (const rhsInfo of possibleRhsInfos) {
-            if (this.solutions.length >= 10 && this.config.maxAttempts > 0 && this.config.maxAttempts <= this.attempts) return;
+            if (this.shouldStop()) return;
 
             const {node: baseRhsNode, numbersConsumedCount} = rhsInfo;
             const nextRemainingNumbersAfterRhs = remainingNumbers.slice(numbersConsumedCount);
@@ -258,61 +1432,33 @@ export class Solver {
             const finalRhsNodes: ASTNode[] = [baseRhsNode]; // Start with the base RHS node
 
             // Try applying unary operators to the baseRhsNode
-            for (const {op: unaryOp, enabled} of unaryOperators) {
-                if (!enabled) continue;
-                try {
-                    const rhsValue = this.evaluateWithCache(baseRhsNode);
-                    if (unaryOp === '!' && (this.getFactorialDepth(baseRhsNode) >= this.config.maxFactorialDepth || rhsValue < 0 || !Number.isInteger(rhsValue) || rhsValue > 15)) continue;
-                    if (unaryOp === '!' && (Math.abs(rhsValue - 2) < 1e-10 || Math.abs(rhsValue - 1) < 1e-10)) continue;
-                    if (unaryOp === '√' && rhsValue < 0) continue;
-                    if (unaryOp === '√' && Math.abs(rhsValue - 1) < 1e-10) continue;
-                    if (unaryOp === '-' && baseRhsNode instanceof UnaryOpNode && baseRhsNode.operator === '-') continue;
-
+            for (const unaryOp of unaryOperators) {
+                if (this.canApplyUnary(unaryOp, baseRhsNode)) {
                     finalRhsNodes.push(new UnaryOpNode(unaryOp, baseRhsNode));
-                } catch (e) { /* Evaluation error during applicability check, skip */
                 }
             }
 
             for (const finalRhsNode of finalRhsNodes) {
-                if (this.solutions.length >= 10 && this.config.maxAttempts > 0 && this.config.maxAttempts <= this.attempts) return;
-
-                const binaryOperators: Array<{ op: '+' | '-' | '*' | '/' | '%' | '^', enabled: boolean }> = [
-                    {op: '+', enabled: this.config.enableAddition},
-                    {op: '-', enabled: this.config.enableSubtraction},
-                    {op: '*', enabled: this.config.enableMultiplication},
-                    {op: '/', enabled: this.config.enableDivision},
-                    {op: '%', enabled: this.config.enableModulo},
-                    {op: '^', enabled: this.config.enablePower}
-                ];
-
-                for (const {op: binaryOp, enabled: binOpEnabled} of binaryOperators) {
-                    if (!binOpEnabled) continue;
-                    if (this.solutions.length >= 10 && this.config.maxAttempts > 0 && this.config.maxAttempts <= this.attempts) return;
-
-                    try {
-                        if (binaryOp === '/' || binaryOp === '%') {
-                            const rhsVal = this.evaluateWithCache(finalRhsNode);
-                            if (Math.abs(rhsVal) < 1e-12) continue; // Division/Modulo by zero (use small epsilon)
-                        }
-                        if (binaryOp === '^') {
-                            const lhsVal = this.evaluateWithCache(currentAst);
-                            if (Math.abs(lhsVal - 1) < 1e-12) continue; // Avoid 1^x
-                            const rhsVal = this.evaluateWithCache(finalRhsNode);
-                            if (Math.abs(lhsVal) < 1e-12 && rhsVal < 0) continue; // Avoid 0 to a negative power
-                            if (lhsVal < 0 && Math.abs(rhsVal % 1) > 1e-12) continue; // Avoid negative base to fractional power
-                        }
-
-                        const combinedAst = new BinaryOpNode(currentAst, binaryOp, finalRhsNode);
-                        yield* this.findCombinationsRecursive(combinedAst, nextRemainingNumbersAfterRhs, target, depth + 1);
-                    } catch (e) { /* Evaluation error during applicability check, skip */
-                    }
+                if (this.shouldStop()) return;
+
+                for (const binaryOp of this.enabledBinaryOperators()) {
+                    if (this.shouldStop()) return;
+                    if (!this.canApplyBinary(currentAst, binaryOp, finalRhsNode)) continue;
+
+                    const combinedAst = new BinaryOpNode(currentAst, binaryOp, finalRhsNode);
+                    yield* this.findCombinationsRecursive(combinedAst, nextRemainingNumbersAfterRhs, target, depth + 1);
                 }
             }
         }
     }
 
-    private checkSolution(node: ASTNode, target: number): boolean {
+    // exact 为目标的精确值; 缺省时主目标使用有理数目标, 其余按十进制字面量转换
+    private checkSolution(node: ASTNode, target: number, exact?: Rational): boolean {
         try {
+            if (this.config.arithmetic === 'exact') {
+                exact ??= target === this.target && this.exactTarget ? this.exactTarget : Rational.from(target);
+                return this.evaluateExactWithCache(node).equals(exact);
+            }
             const result = this.evaluateWithCache(node);
             return Math.abs(result - target) < 1e-9; // Tolerance for float comparison
         } catch {
@@ -320,7 +1466,11 @@ export class Solver {
         }
     }
 
+    // exact 模式下先精确求值再转换, 超出浮点范围的值为 ±Infinity 而不是被丢弃
     private evaluateWithCache(node: ASTNode): number {
+        if (this.config.arithmetic === 'exact') {
+            return this.evaluateExactWithCache(node).toNumber();
+        }
         // TODO: 这里实际上应该是 hash
         const key = node.toString();
         const cached = this.cache.get(key);
@@ -334,6 +1484,25 @@ export class Solver {
         return result;
     }
 
+    private evaluateExactWithCache(node: ASTNode): Rational {
+        const key = node.toString();
+        const cached = this.exactCache.get(key);
+        if (cached !== undefined) return cached;
+
+        // 子节点同样走缓存, 避免重复计算大整数
+        const limits = {maxFactorialOperand: this.config.maxFactorialOperand, maxDigits: this.config.maxDigits};
+        let result: Rational;
+        if (node instanceof BinaryOpNode) {
+            result = applyBinaryOperatorExact(node.operator, this.evaluateExactWithCache(node.left), this.evaluateExactWithCache(node.right), limits);
+        } else if (node instanceof UnaryOpNode) {
+            result = applyUnaryOperatorExact(node.operator, this.evaluateExactWithCache(node.operand), limits);
+        } else {
+            result = node.evaluateExact(limits);
+        }
+        this.exactCache.set(key, result);
+        return result;
+    }
+
     private getFactorialDepth(node: ASTNode): number {
         let depth = 0;
         let currentNode = node;
@@ -344,57 +1513,401 @@ export class Solver {
         return depth;
     }
 
+    // 距上次报告足够久时产出进度报告
+    private* progressCheckpoint(): Generator<SolverReport, void, unknown> {
+        if (Date.now() - this.lastReportTime >= this.checkpointInterval) {
+            yield this.createProgressReport();
+            this.lastReportTime = Date.now();
+        }
+    }
+
     private createProgressReport(): SolverReport {
         const duration = Date.now() - this.startTime;
         return {
             type: 'progress',
             attempts: this.attempts,
             eta: this.calculateETA(duration),
-            progress: this.calculateProgress(duration),
-            duration
+            progress: this.calculateProgress(),
+            duration,
+            searchSpace: this.searchSpace,
+            ...this.approximationReport()
         };
     }
 
-    private calculateProgress(elapsed: number): number {
-        if (this.config.maxAttempts <= 0) return Math.min(elapsed / this.config.timeout, 1); // Time based if no max attempts
-        return Math.min(this.attempts / this.config.maxAttempts, elapsed / this.config.timeout, 1);
-
+    // 估计偏低时已探索的部分可能超过估计, 搜索结束前进度不会达到 1
+    private calculateProgress(): number {
+        return this.attempts / Math.max(this.searchSpace, this.attempts + 1);
     }
 
+    // 按当前速度探索剩余空间所需的时间, 不超过尝试次数与超时限制
     private calculateETA(elapsed: number): number {
-        const progress = this.calculateProgress(elapsed);
-        if (progress < 1e-9) return this.config.timeout; // Avoid division by zero if progress is negligible
-        const estimatedTotalTime = elapsed / progress;
-        const eta = estimatedTotalTime - elapsed;
-        return Math.max(0, eta);
+        if (this.attempts === 0 || elapsed <= 0) return Math.max(0, this.config.timeout - elapsed);
+        let remaining = Math.max(this.searchSpace - this.attempts, 0);
+        if (this.config.maxAttempts > 0) remaining = Math.min(remaining, this.config.maxAttempts - this.attempts);
+        const eta = remaining * elapsed / this.attempts;
+        return Math.max(0, Math.min(eta, this.config.timeout - elapsed));
+    }
+}
+
+// 区间动态规划中 table[start][end] 由较短区间组合而成: 依次给出每个切分位置两侧已物化的值
+export function* intervalPairs<T>(table: Map<number, T>[][], start: number, end: number): Generator<[T, T], void, unknown> {
+    for (let split = start + 1; split < end; split++) {
+        for (const left of table[start][split].values()) {
+            for (const right of table[split][end].values()) yield [left, right];
+        }
+    }
+}
+
+// 按顺序模式生成数字的排列, 重复数字不会产生重复排列
+export function* orderings(
+    numbers: number[],
+    ordering: OrderingMode = 'strict',
+    precedence: Array<[number, number]> = []
+): Generator<number[], void, unknown> {
+    if (ordering === 'strict') {
+        yield numbers;
+        return;
+    }
+
+    const constraints = ordering === 'partial' ? precedence : [];
+    const predecessors = numbers.map((_, index) => constraints.filter(([, after]) => after === index).map(([before]) => before));
+    const used = numbers.map(() => false);
+    const current: number[] = [];
+    // 有约束时相同数字不可互换, 改为按完整序列去重
+    const seen = new Set<string>();
+
+    function* extend(): Generator<number[], void, unknown> {
+        if (current.length === numbers.length) {
+            if (constraints.length > 0) {
+                const key = current.join(',');
+                if (seen.has(key)) return;
+                seen.add(key);
+            }
+            yield [...current];
+            return;
+        }
+        const tried = new Set<number>();
+        for (let index = 0; index < numbers.length; index++) {
+            if (used[index] || !predecessors[index].every(before => used[before])) continue;
+            if (constraints.length === 0) {
+                if (tried.has(numbers[index])) continue;
+                tried.add(numbers[index]);
+            }
+            used[index] = true;
+            current.push(numbers[index]);
+            yield* extend();
+            current.pop();
+            used[index] = false;
+        }
+    }
+
+    yield* extend();
+}
+
+function addBatchTarget(batch: BatchState, target: number, entry: BatchEntry): void {
+    batch.targets.set(target, entry);
+    const bucket = Math.round(target);
+    batch.buckets.set(bucket, [...batch.buckets.get(bucket) ?? [], target]);
+}
+
+// 非整数有理数目标作为等式右侧时写成分数
+function fractionNode(value: Rational): ASTNode {
+    return new BinaryOpNode(new NumberNode(Number(value.numerator)), '/', new NumberNode(Number(value.denominator)));
+}
+
+// 展开目标集合, 去重并升序排列
+function expandTargets(targets: TargetSet): number[] {
+    let values: number[];
+    if (Symbol.iterator in targets) {
+        values = [...targets];
+    } else {
+        const {from, to, step = 1} = targets;
+        if (!(step > 0) || !isFinite(from) || !isFinite(to)) throw new Error(`Invalid target range: ${from}..${to} step ${step}`);
+        values = [];
+        for (let index = 0; from + index * step <= to; index++) values.push(from + index * step);
+    }
+    if (values.some(value => !isFinite(value))) throw new Error('Targets must be finite numbers');
+    return [...new Set(values)].sort((a, b) => a - b);
+}
+
+// 数字顺序的个数
+function countOrderings(numbers: number[], ordering: OrderingMode, precedence: Array<[number, number]>): number {
+    if (ordering === 'strict') return 1;
+    if (ordering === 'permutation') {
+        // 多重集合的排列数 n! / (m1! m2! ...)
+        const multiplicity = new Map<number, number>();
+        let count = 1;
+        numbers.forEach((number, index) => {
+            const seen = (multiplicity.get(number) ?? 0) + 1;
+            multiplicity.set(number, seen);
+            count = count * (index + 1) / seen;
+        });
+        return Math.round(count);
+    }
+    let count = 0;
+    for (const _ of orderings(numbers, ordering, precedence)) count++;
+    return count;
+}
+
+// 长度为 k 的一元运算链个数, 近似认为相邻的一元运算互不相同
+function unaryChains(unary: number, length: number): number {
+    return length === 0 ? 1 : unary * Math.pow(Math.max(unary - 1, 0), length - 1);
+}
+
+// 高度为 height 的节点在深度上限内套上一元运算链的方式数 (含不套)
+function unaryWraps(height: number, shape: SpaceShape): number {
+    let count = 0;
+    for (let length = 0; height + length <= shape.maxDepth; length++) count += unaryChains(shape.unary, length);
+    return count;
+}
+
+// counts[len][h]: len 个数字上高度恰为 h 的表达式树个数, 含根部的一元运算
+function treeCounts(maxLength: number, shape: SpaceShape): number[][] {
+    const counts: number[][] = [[]];
+    for (let length = 1; length <= maxLength; length++) {
+        const bare = new Array(shape.maxDepth + 1).fill(0);
+        if (length === 1 || (shape.concat && length <= MAX_CONCAT_LENGTH)) bare[1] = 1;
+        for (let split = 1; split < length; split++) {
+            for (let left = 1; left < shape.maxDepth; left++) {
+                for (let right = 1; right < shape.maxDepth; right++) {
+                    const height = Math.max(left, right) + 1;
+                    bare[height] += shape.binary * counts[split][left] * counts[length - split][right];
+                }
+            }
+        }
+        counts[length] = bare.map((_, height) => {
+            let count = 0;
+            for (let wraps = 0; wraps < height; wraps++) count += bare[height - wraps] * unaryChains(shape.unary, wraps);
+            return count;
+        });
+    }
+    return counts;
+}
+
+// tree 策略各顶层分支的树个数: 第 0 项为根部是叶子的情况, 第 i 项为在第 i 个位置切分
+function treeRootBranches(length: number, shape: SpaceShape): number[] {
+    const counts = treeCounts(length - 1, shape);
+    const leaf = length === 1 || (shape.concat && length <= MAX_CONCAT_LENGTH) ? unaryWraps(1, shape) : 0;
+    const branches = [leaf];
+    for (let split = 1; split < length; split++) {
+        let count = 0;
+        for (let left = 1; left < shape.maxDepth; left++) {
+            for (let right = 1; right < shape.maxDepth; right++) {
+                const height = Math.max(left, right) + 1;
+                count += shape.binary * counts[split][left] * counts[length - split][right] * unaryWraps(height, shape);
+            }
+        }
+        branches.push(count);
     }
+    return branches;
+}
+
+// chain 策略从每条起始路径 (首个数字, 或开头连接的 2..4 个数字) 出发的状态数
+function chainPaths(length: number, shape: SpaceShape): number[] {
+    const memo = new Map<string, number>();
+    const states = (remaining: number, depth: number): number => {
+        if (depth >= shape.maxDepth) return 0;
+        const key = `${remaining}:${depth}`;
+        const cached = memo.get(key);
+        if (cached !== undefined) return cached;
+        let count = 1;
+        if (remaining > 0) {
+            count += shape.unary * states(remaining, depth + 1);
+            const longest = shape.concat ? Math.min(MAX_CONCAT_LENGTH, remaining) : 1;
+            for (let consumed = 1; consumed <= longest; consumed++) {
+                count += (1 + shape.unary) * shape.binary * states(remaining - consumed, depth + 1);
+            }
+        }
+        memo.set(key, count);
+        return count;
+    };
+    const longest = shape.concat ? Math.min(MAX_CONCAT_LENGTH, length) : 1;
+    return Array.from({length: longest}, (_, index) => states(length - index - 1, 0));
+}
+
+// interval 策略物化的最长区间
+function intervalSpan(length: number): number {
+    return length <= MAX_CONCAT_LENGTH ? length : Math.ceil(length / 2);
+}
+
+// interval 策略尚未完成的工作量: 已物化区间用实际大小, 其余用表达式树个数作为上界
+function intervalWork(
+    length: number,
+    span: number,
+    known: (start: number, end: number) => number | undefined,
+    shape: SpaceShape
+): number {
+    const counts = treeCounts(span, shape);
+    const size = (start: number, end: number) => known(start, end) ?? sum(counts[end - start]);
+    let work = 0;
+    for (let slice = 2; slice <= span; slice++) {
+        for (let start = 0; start + slice <= length; start++) {
+            if (known(start, start + slice) !== undefined) continue;
+            for (let split = start + 1; split < start + slice; split++) {
+                work += size(start, split) * size(split, start + slice) * shape.binary;
+            }
+        }
+    }
+    // 较长的整段从较小的已物化一侧反解, 只计根部一层
+    if (length > span) {
+        for (let split = 1; split < length; split++) {
+            const sides = [split <= span ? size(0, split) : Infinity, length - split <= span ? size(split, length) : Infinity];
+            const smaller = Math.min(...sides);
+            if (smaller !== Infinity) work += smaller * shape.binary;
+        }
+    }
+    return work;
+}
+
+function sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+}
+
+// 区间表的键, 合并浮点误差造成的近似重复值
+function intervalKey(value: number): number {
+    return Number(value.toPrecision(12));
+}
+
+// 已知左操作数 left, 求右操作数使 left op right = result
+function invertRight(op: BinaryOperator, left: number, result: number): number | undefined {
+    switch (op) {
+        case '+':
+            return result - left;
+        case '-':
+            return left - result;
+        case '*':
+            return left === 0 ? undefined : result / left;
+        case '/':
+            return result === 0 ? undefined : left / result;
+        case '^':
+            return left > 0 && left !== 1 && result > 0 ? Math.log(result) / Math.log(left) : undefined;
+        default:
+            return undefined;
+    }
+}
+
+// 已知右操作数 right, 求左操作数使 left op right = result
+function invertLeft(op: BinaryOperator, right: number, result: number): number | undefined {
+    switch (op) {
+        case '+':
+            return result - right;
+        case '-':
+            return result + right;
+        case '*':
+            return right === 0 ? undefined : result / right;
+        case '/':
+            return result * right;
+        case '^':
+            if (right === 0) return undefined;
+            if (result >= 0) return Math.pow(result, 1 / right);
+            return Number.isInteger(right) && right % 2 !== 0 ? -Math.pow(-result, 1 / right) : undefined;
+        default:
+            return undefined;
+    }
+}
+
+// 一元运算的反解: 返回所有可能的操作数
+function invertUnary(op: UnaryOperator, result: number, maxFactorialOperand: number): number[] {
+    switch (op) {
+        case '-':
+            return [-result];
+        case '√':
+            return result > 0 && result !== 1 ? [result * result] : [];
+        case '!': {
+            let product = 1;
+            for (let n = 2; n <= Math.min(maxFactorialOperand, 170); n++) {
+                product *= n;
+                if (product === result) return [n];
+                if (product > result) break;
+            }
+            return [];
+        }
+    }
+}
+
+// 计数模式 operators 分组的运算顺序
+const OPERATOR_SET_ORDER = ['+', '-', '*', '/', '%', '^', '!', '√', 'neg', 'concat'];
+
+// 表达式用到的运算的集合, 按固定顺序以空格连接; 取负记为 neg, 数字连接记为 concat
+export function operatorSet(node: ASTNode): string {
+    const used = new Set<string>();
+    const visit = (current: ASTNode): void => {
+        if (current instanceof BinaryOpNode) {
+            used.add(current.operator);
+            visit(current.left);
+            visit(current.right);
+        } else if (current instanceof UnaryOpNode) {
+            used.add(current.operator === '-' ? 'neg' : current.operator);
+            visit(current.operand);
+        } else if (current instanceof ParenNode) {
+            visit(current.expression);
+        } else if (current instanceof ConcatNode) {
+            used.add('concat');
+        }
+    };
+    visit(node);
+    return OPERATOR_SET_ORDER.filter(operator => used.has(operator)).join(' ');
+}
+
+// 表达式树的高度, 叶子为 1
+function treeHeight(node: ASTNode): number {
+    if (node instanceof BinaryOpNode) return Math.max(treeHeight(node.left), treeHeight(node.right)) + 1;
+    if (node instanceof UnaryOpNode) return treeHeight(node.operand) + 1;
+    return 1;
 }
 
 // 函数求解形式
 export function* solving(
     numbers: number[],
-    target: number,
+    target: SolveTarget,
     config?: SolverConfig
 ): Generator<SolverReport, SolutionResult, unknown> {
     const solver = new Solver(config);
     return yield* solver.solve(numbers, target);
 }
 
+// 异步迭代形式, 可用 for await 逐个消费报告; 提前退出循环即停止搜索
+export function solveStream(
+    numbers: number[],
+    target: SolveTarget,
+    config?: SolverConfig,
+    options?: StreamOptions
+): AsyncGenerator<SolverReport, SolutionResult, unknown> {
+    return new Solver(config).stream(numbers, target, options);
+}
+
+// 批量求解的异步迭代形式
+export function solveBatchStream(
+    numbers: number[],
+    targets: TargetSet,
+    config?: SolverConfig,
+    options?: Omit<StreamOptions, 'resumeFrom'>
+): AsyncGenerator<SolverReport, BatchResult, unknown> {
+    return new Solver(config).streamBatch(numbers, targets, options);
+}
+
+// 按时间片批量求解
+export async function solveBatch(
+    numbers: number[],
+    targets: TargetSet,
+    config?: SolverConfig,
+    onReport?: (report: SolverReport) => void
+): Promise<BatchResult> {
+    const stream = solveBatchStream(numbers, targets, config);
+    let step = await stream.next();
+    while (!step.done) {
+        onReport?.(step.value);
+        step = await stream.next();
+    }
+    return step.value;
+}
+
+// 按时间片求解, 不会长时间阻塞事件循环
 export async function solve(
     numbers: number[],
-    target: number,
+    target: SolveTarget,
     config?: SolverConfig,
     onReport?: (report: SolverReport) => void
 ): Promise<SolutionResult> {
-    const solver = new Solver(config);
-    const generator = solver.solve(numbers, target);
-    let result = generator.next();
-    while (!result.done) {
-        onReport?.(result.value)
-        if (result.value.type === 'solution' && config?.maxAttempts === 0) {
-            // Potentially break early if one solution is enough
-        }
-        result = generator.next();
-    }
-    return result.value;
+    return new Solver(config).solveAsync(numbers, target, {onReport});
 }
\ No newline at end of file
@@ -0,0 +1,209 @@
+// 数字序列的可达整数表, 每个整数保留代价最低的表达式, 可导出为 JSON 预先计算
+
+import {
+    applyBinaryOperator,
+    applyUnaryOperator,
+    ASTNode,
+    BinaryOperator,
+    BinaryOpNode,
+    ConcatNode,
+    ExpressionNode,
+    NodeData,
+    NumberNode,
+    reviveNode,
+    toNodeData,
+    UnaryOperator,
+    UnaryOpNode
+} from '../ast';
+import {intervalPairs, MAX_CONCAT_LENGTH, SolverConfig} from '../solver';
+import {CostFunction, leafCount} from '../cost';
+
+// 建表配置, 运算开关与 SolverConfig 含义相同
+export interface TableConfig extends Pick<SolverConfig,
+    'enableConcatenation' | 'enableAddition' | 'enableSubtraction' | 'enableMultiplication' | 'enableDivision' |
+    'enablePower' | 'enableFactorial' | 'enableSquareRoot' | 'enableNegation' | 'enableModulo' |
+    'maxFactorialDepth' | 'maxFactorialOperand'> {
+    // 默认为 leafCount; 每个中间值只保留代价最低的写法, 因此只对可加的代价保证全局最优
+    cost?: CostFunction;
+    // 只收录该闭区间内的整数
+    min?: number;
+    max?: number;
+    // 中间值的绝对值上限, 默认为 1e6; 超出的值连同由它得到的表达式都不再考虑
+    maxMagnitude?: number;
+}
+
+// 表中的一项
+export interface TableEntry {
+    value: number;
+    expression: ASTNode;
+    cost: number;
+}
+
+// 导出格式
+export interface ReachableTableJSON {
+    numbers: number[];
+    entries: Array<{ value: number; cost: number; expression: NodeData }>;
+}
+
+// 区间内的某个可达值
+interface Reach {
+    value: number;
+    node: ASTNode;
+    cost: number;
+}
+
+// 中间值的默认绝对值上限; 不设上限时 6 个数字的表就可能耗尽内存
+const DEFAULT_MAX_MAGNITUDE = 1e6;
+
+export class ReachableTable {
+    private readonly byValue: Map<number, TableEntry>;
+
+    constructor(readonly numbers: number[], entries: TableEntry[]) {
+        this.byValue = new Map([...entries].sort((a, b) => a.value - b.value).map(entry => [entry.value, entry]));
+    }
+
+    get size(): number {
+        return this.byValue.size;
+    }
+
+    get(target: number): TableEntry | undefined {
+        return this.byValue.get(target);
+    }
+
+    has(target: number): boolean {
+        return this.byValue.has(target);
+    }
+
+    // 以等式形式返回目标的最简解
+    solution(target: number): ExpressionNode | undefined {
+        const entry = this.byValue.get(target);
+        return entry && new ExpressionNode(entry.expression, target);
+    }
+
+    // 按值升序
+    entries(): TableEntry[] {
+        return [...this.byValue.values()];
+    }
+
+    targets(): number[] {
+        return [...this.byValue.keys()];
+    }
+
+    toJSON(): ReachableTableJSON {
+        return {
+            numbers: [...this.numbers],
+            entries: this.entries().map(({value, cost, expression}) => ({value, cost, expression: toNodeData(expression)}))
+        };
+    }
+
+    static fromJSON(json: ReachableTableJSON): ReachableTable {
+        return new ReachableTable(
+            json.numbers,
+            json.entries.map(({value, cost, expression}) => ({value, cost, expression: reviveNode(expression)}))
+        );
+    }
+}
+
+// 按区间动态规划枚举所有可达值, 再用精确求值筛出整数
+export function buildReachableTable(numbers: number[], config: TableConfig = {}): ReachableTable {
+    const options = {
+        enableConcatenation: config.enableConcatenation ?? true,
+        maxFactorialDepth: config.maxFactorialDepth ?? 2,
+        maxFactorialOperand: config.maxFactorialOperand ?? 15,
+        cost: config.cost ?? leafCount,
+        maxMagnitude: config.maxMagnitude ?? DEFAULT_MAX_MAGNITUDE,
+    };
+    const binaryOperators = ([
+        ['+', config.enableAddition],
+        ['-', config.enableSubtraction],
+        ['*', config.enableMultiplication],
+        ['/', config.enableDivision],
+        ['%', config.enableModulo],
+        ['^', config.enablePower],
+    ] as Array<[BinaryOperator, boolean | undefined]>).filter(([, enabled]) => enabled ?? true).map(([op]) => op);
+    const unaryOperators = ([
+        ['!', config.enableFactorial],
+        ['√', config.enableSquareRoot],
+        ['-', config.enableNegation],
+    ] as Array<[UnaryOperator, boolean | undefined]>).filter(([, enabled]) => enabled ?? true).map(([op]) => op);
+
+    const offer = (slice: Map<number, Reach>, value: number, build: () => ASTNode): Reach | undefined => {
+        if (!isFinite(value) || Math.abs(value) > options.maxMagnitude) return undefined;
+        const key = Number(value.toPrecision(12));
+        const node = build();
+        const cost = options.cost(node);
+        const existing = slice.get(key);
+        if (existing && existing.cost <= cost) return undefined;
+        const reach = {value, node, cost};
+        slice.set(key, reach);
+        return reach;
+    };
+
+    // table[start][end] 对应 numbers.slice(start, end)
+    const table: Map<number, Reach>[][] = numbers.map(() => []);
+    for (let length = 1; length <= numbers.length; length++) {
+        for (let start = 0; start + length <= numbers.length; start++) {
+            const end = start + length;
+            const slice = new Map<number, Reach>();
+
+            if (length === 1) {
+                offer(slice, numbers[start], () => new NumberNode(numbers[start]));
+            } else if (options.enableConcatenation && length <= MAX_CONCAT_LENGTH) {
+                const digits = numbers.slice(start, end);
+                offer(slice, parseInt(digits.join('')), () => new ConcatNode(digits));
+            }
+
+            for (const [left, right] of intervalPairs(table, start, end)) {
+                for (const op of binaryOperators) {
+                    if ((op === '/' || op === '%') && right.value === 0) continue;
+                    if (op === '^' && (left.value === 1 || (left.value < 0 && !Number.isInteger(right.value)))) continue;
+                    const value = applyBinaryOperator(op, left.value, right.value);
+                    // 精确求值不接受无理数, 非整数次幂只保留结果为整数的情形
+                    if (op === '^' && !Number.isInteger(right.value) && !Number.isInteger(value)) continue;
+                    offer(slice, value, () => new BinaryOpNode(left.node, op, right.node));
+                }
+            }
+
+            // 一元运算的闭包; 同一运算不连续叠加, 阶乘受深度与操作数限制, 开方只保留结果为整数的情形
+            const pending = [...slice.values()];
+            while (pending.length > 0) {
+                const reach = pending.pop()!;
+                for (const op of unaryOperators) {
+                    if (reach.node instanceof UnaryOpNode && reach.node.operator === op && op !== '!') continue;
+                    if (op === '!' && !factorialAllowed(reach, options.maxFactorialDepth, options.maxFactorialOperand)) continue;
+                    if (op === '√' && (reach.value < 0 || reach.value === 1 || !Number.isInteger(Math.sqrt(reach.value)))) continue;
+                    const added = offer(slice, applyUnaryOperator(op, reach.value), () => new UnaryOpNode(op, reach.node));
+                    if (added) pending.push(added);
+                }
+            }
+
+            table[start][end] = slice;
+        }
+    }
+
+    const entries = new Map<number, TableEntry>();
+    for (const reach of numbers.length > 0 ? table[0][numbers.length].values() : []) {
+        // 浮点值只用于合并, 是否为整数以精确求值为准
+        let exact;
+        try {
+            exact = reach.node.evaluateExact({maxFactorialOperand: options.maxFactorialOperand, maxDigits: 20});
+        } catch {
+            continue;
+        }
+        if (!exact.isInteger()) continue;
+        const value = Number(exact.numerator);
+        if ((config.min !== undefined && value < config.min) || (config.max !== undefined && value > config.max)) continue;
+        const existing = entries.get(value);
+        if (existing && existing.cost <= reach.cost) continue;
+        entries.set(value, {value, expression: reach.node, cost: reach.cost});
+    }
+    return new ReachableTable(numbers, [...entries.values()]);
+}
+
+function factorialAllowed(reach: Reach, maxDepth: number, maxOperand: number): boolean {
+    const {value} = reach;
+    if (!Number.isInteger(value) || value < 3 || value > maxOperand) return false;
+    let depth = 0;
+    for (let node = reach.node; node instanceof UnaryOpNode && node.operator === '!'; node = node.operand) depth++;
+    return depth < maxDepth;
+}
@@ -0,0 +1,123 @@
+// 校验玩家写出的答案: 数字是否与谜题一致、运算是否被规则允许、值是否等于目标
+
+import {ASTNode, BinaryOpNode, ConcatNode, ExpressionNode, NumberNode, ParenNode, UnaryOpNode} from '../ast';
+import {ParsedInput, parseInput, Parser} from '../parser';
+import {Rational} from '../rational';
+import {operatorSet, Solver, SolverConfig} from '../solver';
+
+// 校验结论; expression 为按谜题数字还原后的等式, 多位数字字面量拆成 ConcatNode
+export type AnswerVerdict =
+    | { verdict: 'correct'; expression: ExpressionNode }
+    // digits 为答案中按书写顺序出现的数字字面量, expected 为谜题的数字
+    | { verdict: 'wrong-digits'; digits: number[]; expected: number[] }
+    // operators 为规则不允许的运算, 记法与 operatorSet 相同
+    | { verdict: 'disallowed-operator'; operators: string[]; expression: ExpressionNode }
+    // value 为答案的值, 无法求值 (如除以零) 时为 undefined
+    | { verdict: 'wrong-value'; value?: number; expression: ExpressionNode };
+
+// 校验玩家的答案; puzzle 为谜题文本或 parseInput 的结果, 答案只写等号左侧, 语法错误时抛出 ParseError
+// 数字顺序取自谜题, rules 中的运算开关与计算模式和 Solver 的配置含义相同
+export function verifyAnswer(puzzle: string | ParsedInput, expressionText: string, rules: SolverConfig = {}): AnswerVerdict {
+    const {numbers, target, exactTarget, right, ordering, precedence} = typeof puzzle === 'string' ? parseInput(puzzle) : puzzle;
+    if (right) throw new Error('Equation puzzles are not supported');
+    const answer = new Parser().parseSide(expressionText);
+
+    // 先把字面量对应到谜题数字上, 跨越多个数字的字面量即数字连接
+    const literals = leaves(answer);
+    const constraints: Array<[number, number]> = ordering === 'strict'
+        ? numbers.slice(1).map((_, index) => [index, index + 1])
+        : ordering === 'partial' ? precedence : [];
+    const groups = assignNumbers(literals.map(String), numbers, constraints);
+    if (!groups) return {verdict: 'wrong-digits', digits: literals, expected: numbers};
+
+    let next = 0;
+    const left = mapLeaves(answer, leaf => {
+        const group = groups[next++];
+        return group.length > 1 ? new ConcatNode(group) : leaf;
+    });
+    const expression = new ExpressionNode(left, target);
+
+    const coverage = new Solver({...rules, ordering, precedence}).coverage();
+    const allowed = new Set<string>([
+        ...coverage.binaryOperators,
+        ...coverage.unaryOperators.map(operator => operator === '-' ? 'neg' : operator),
+        ...(coverage.concatenation ? ['concat'] : [])
+    ]);
+    const operators = operatorSet(left).split(' ').filter(operator => operator !== '' && !allowed.has(operator));
+    if (groups.some(group => group.length > coverage.maxConcatLength) && !operators.includes('concat')) {
+        operators.push('concat');
+    }
+    if (operators.length > 0) return {verdict: 'disallowed-operator', operators, expression};
+
+    let value: number | undefined;
+    let correct = false;
+    try {
+        if (coverage.arithmetic === 'exact') {
+            const exact = left.evaluateExact();
+            value = exact.toNumber();
+            correct = exact.equals(exactTarget ?? Rational.from(target));
+        } else {
+            value = left.evaluate();
+            correct = Math.abs(value - target) < 1e-9;
+        }
+    } catch {
+        value = undefined;
+    }
+    return correct ? {verdict: 'correct', expression} : {verdict: 'wrong-value', value, expression};
+}
+
+// 按书写顺序收集数字字面量
+function leaves(node: ASTNode): number[] {
+    const values: number[] = [];
+    mapLeaves(node, leaf => {
+        values.push(leaf.value);
+        return leaf;
+    });
+    return values;
+}
+
+// 按书写顺序替换数字字面量, 其余结构 (包括括号) 保持不变
+function mapLeaves(node: ASTNode, map: (leaf: NumberNode) => ASTNode): ASTNode {
+    if (node instanceof NumberNode) return map(node);
+    if (node instanceof BinaryOpNode) return new BinaryOpNode(mapLeaves(node.left, map), node.operator, mapLeaves(node.right, map));
+    if (node instanceof UnaryOpNode) return new UnaryOpNode(node.operator, mapLeaves(node.operand, map));
+    if (node instanceof ParenNode) return new ParenNode(mapLeaves(node.expression, map));
+    return node;
+}
+
+// 把每个字面量拆成若干个谜题数字的连接, 每个数字恰好用一次且满足先后约束;
+// 返回每个字面量依次占用的数字, 无法对应时返回 undefined
+function assignNumbers(literals: string[], numbers: number[], constraints: Array<[number, number]>): number[][] | undefined {
+    const texts = numbers.map(String);
+    const predecessors = numbers.map((_, index) => constraints.filter(([, after]) => after === index).map(([before]) => before));
+    const used = numbers.map(() => false);
+    const groups: number[][] = literals.map(() => []);
+
+    // 继续匹配第 literal 个字面量中 offset 之后的部分
+    const extend = (literal: number, offset: number): boolean => {
+        if (literal === literals.length) return used.every(Boolean);
+        const text = literals[literal];
+        if (offset === text.length) return extend(literal + 1, 0);
+
+        // 优先整段匹配较长的数字, 尽量少用数字连接; 没有约束时相同数字不必重复尝试
+        const candidates = texts
+            .map((_, index) => index)
+            .filter(index => !used[index] && predecessors[index].every(before => used[before]) && text.startsWith(texts[index], offset))
+            .sort((a, b) => texts[b].length - texts[a].length);
+        const tried = new Set<string>();
+        for (const index of candidates) {
+            if (constraints.length === 0) {
+                if (tried.has(texts[index])) continue;
+                tried.add(texts[index]);
+            }
+            used[index] = true;
+            groups[literal].push(numbers[index]);
+            if (extend(literal, offset + texts[index].length)) return true;
+            groups[literal].pop();
+            used[index] = false;
+        }
+        return false;
+    };
+
+    return extend(0, 0) ? groups : undefined;
+}
@@ -3,20 +3,62 @@
 import {describe, expect, it} from 'vitest';
 import {
     BinaryOpNode,
+    canonicalKey,
     ConcatNode,
+    buildReachableTable,
+    dailySeed,
     ExpressionNode,
+    generatePuzzle,
+    leafCount,
+    mergeResults,
+    nodeCount,
     NumberNode,
+    operatorSet,
+    orderings,
     parseInput,
+    partitionConfigs,
+    ParenNode,
+    ParseError,
     Parser,
+    reviveNode,
+    Rational,
+    ReachableTable,
+    ReportMerger,
     renderToLatex,
     renderToMathematica,
     renderToText,
     solve,
+    solveBatch,
+    Solver,
     SolverReport,
+    SolutionResult,
+    solveStream,
     solving,
-    UnaryOpNode
+    toNodeData,
+    UnaryOpNode,
+    validateSolverConfig,
+    verifyAnswer,
+    weightedCost
 } from '../src/index.js';
 
+// 关闭全部运算的配置, 各测试只打开需要的运算
+const OPERATORS_OFF = {
+    enableConcatenation: false,
+    enableAddition: false,
+    enableSubtraction: false,
+    enableMultiplication: false,
+    enableDivision: false,
+    enablePower: false,
+    enableFactorial: false,
+    enableSquareRoot: false,
+    enableNegation: false,
+    enableModulo: false,
+};
+
+function operators(...enabled: (keyof typeof OPERATORS_OFF)[]): typeof OPERATORS_OFF {
+    return {...OPERATORS_OFF, ...Object.fromEntries(enabled.map(key => [key, true]))};
+}
+
 describe('AST节点测试', () => {
     it('数字节点应该正确计算', () => {
         const node = new NumberNode(42);
@@ -65,6 +107,132 @@ describe('AST节点测试', () => {
 
         expect(expr.isValid()).toBe(true);
     });
+
+    it('括号节点应该透明计算并保留在树中', () => {
+        const node = new ParenNode(new BinaryOpNode(new NumberNode(1), '+', new NumberNode(2)));
+        expect(node.evaluate()).toBe(3);
+        expect(node.evaluateExact().toString()).toBe('3');
+        expect(reviveNode(JSON.parse(JSON.stringify(node))).toString()).toBe(node.toString());
+        expect(canonicalKey(node)).toBe(canonicalKey(node.expression));
+    });
+});
+
+describe('精确有理数测试', () => {
+    it('有理数应该约分并精确运算', () => {
+        const third = new Rational(2n, 6n);
+        expect(third.toString()).toBe('1/3');
+        expect(third.add(third).add(third).equals(Rational.ONE)).toBe(true);
+        expect(Rational.from(0.1).toString()).toBe('1/10');
+        expect(Rational.from(-7).modulo(Rational.from(3)).toString()).toBe('-1');
+    });
+
+    it('开方与幂运算仅在结果为有理数时成功', () => {
+        expect(new Rational(16n, 9n).sqrt().toString()).toBe('4/3');
+        expect(() => Rational.from(2).sqrt()).toThrow();
+        expect(Rational.from(8).power(new Rational(2n, 3n)).toString()).toBe('4');
+        expect(Rational.from(2).power(Rational.from(-2)).toString()).toBe('1/4');
+        expect(() => Rational.from(2).power(new Rational(1n, 2n))).toThrow('Irrational power');
+    });
+
+    it('exact 模式不接受浮点意义上的近似相等', () => {
+        // 1 + 1 / 9^11 与 1 的差小于浮点容差
+        const left = new BinaryOpNode(
+            new NumberNode(1),
+            '+',
+            new BinaryOpNode(new NumberNode(1), '/', new BinaryOpNode(new NumberNode(9), '^', new ConcatNode([1, 1])))
+        );
+        const expr = new ExpressionNode(left, 1);
+
+        expect(expr.isValid()).toBe(true);
+        expect(expr.isValid('exact')).toBe(false);
+    });
+
+    it('exact 模式下阶乘与幂使用大整数并受量级限制', () => {
+        // (1 + 2)!!! = 720!
+        const sum = new BinaryOpNode(new NumberNode(1), '+', new NumberNode(2));
+        const node = new UnaryOpNode('!', new UnaryOpNode('!', new UnaryOpNode('!', sum)));
+        expect(() => node.evaluate()).toThrow('Factorial overflow');
+        expect(node.evaluateExact().digits()).toBe(1747);
+        expect(() => node.evaluateExact({maxFactorialOperand: 500, maxDigits: 10000})).toThrow('Factorial overflow');
+        expect(() => node.evaluateExact({maxFactorialOperand: 1000, maxDigits: 1000})).toThrow('Magnitude limit exceeded');
+
+        const power = new BinaryOpNode(new NumberNode(9), '^', new ConcatNode([9, 9, 9, 9, 9]));
+        expect(() => power.evaluateExact()).toThrow('Magnitude limit exceeded');
+
+        // 底数为 0、1 或 -1 时结果很小, 不受指数大小限制
+        const huge = new ConcatNode([9, 9, 9, 9, 9, 9, 9]);
+        expect(new BinaryOpNode(new NumberNode(1), '^', huge).evaluateExact().toString()).toBe('1');
+        expect(new BinaryOpNode(new NumberNode(-1), '^', huge).evaluateExact().toString()).toBe('-1');
+        expect(new BinaryOpNode(new NumberNode(-1), '^', new ConcatNode([9, 9, 9, 9, 9, 9, 8])).evaluateExact().toString()).toBe('1');
+        expect(new BinaryOpNode(new NumberNode(0), '^', huge).evaluateExact().toString()).toBe('0');
+        expect(() => new BinaryOpNode(new NumberNode(-1), '^', new BinaryOpNode(new NumberNode(1), '/', new NumberNode(2))).evaluateExact()).toThrow();
+    });
+
+    it('exact 模式可经由超出浮点范围的中间值求解', async () => {
+        // 180! / 179! = 180
+        const config = {
+            strategy: 'tree' as const,
+            ...operators('enableConcatenation', 'enableDivision', 'enableFactorial'),
+            maxFactorialOperand: 200,
+            timeout: 5000,
+        };
+        const float = await solve([1, 8, 0, 1, 7, 9], 180, config);
+        expect(float.found).toBe(false);
+
+        const exact = await solve([1, 8, 0, 1, 7, 9], 180, {...config, arithmetic: 'exact'});
+        expect(exact.found).toBe(true);
+        expect(exact.expression.isValid('exact')).toBe(true);
+    });
+
+    it('exact 模式的求解结果应可精确验证', async () => {
+        const result = await solve([1, 2, 3, 4], 10, {
+            maxAttempts: 10000,
+            timeout: 1000,
+            strategy: 'tree',
+            arithmetic: 'exact',
+        });
+
+        expect(result.found).toBe(true);
+        expect(result.expression.isValid('exact')).toBe(true);
+    });
+});
+
+describe('规范形式测试', () => {
+    const n = (value: number) => new NumberNode(value);
+
+    it('应该展开结合律并排序交换律操作数', () => {
+        const leftAssoc = new BinaryOpNode(new BinaryOpNode(n(1), '+', n(2)), '+', n(3));
+        const rightAssoc = new BinaryOpNode(n(1), '+', new BinaryOpNode(n(2), '+', n(3)));
+        expect(canonicalKey(leftAssoc)).toBe(canonicalKey(rightAssoc));
+
+        expect(canonicalKey(new BinaryOpNode(n(2), '*', n(3)))).toBe(canonicalKey(new BinaryOpNode(n(3), '*', n(2))));
+        // 1 - 2 + 3 与 1 + (3 - 2)
+        const mixed = new BinaryOpNode(new BinaryOpNode(n(1), '-', n(2)), '+', n(3));
+        const regrouped = new BinaryOpNode(n(1), '+', new BinaryOpNode(n(3), '-', n(2)));
+        expect(canonicalKey(mixed)).toBe(canonicalKey(regrouped));
+
+        expect(canonicalKey(new BinaryOpNode(n(1), '-', n(2)))).not.toBe(canonicalKey(new BinaryOpNode(n(2), '-', n(1))));
+        expect(canonicalKey(new BinaryOpNode(n(1), '/', n(2)))).not.toBe(canonicalKey(new BinaryOpNode(n(2), '/', n(1))));
+    });
+
+    it('应该消去双重取负', () => {
+        expect(canonicalKey(new UnaryOpNode('-', new UnaryOpNode('-', n(4))))).toBe(canonicalKey(n(4)));
+        const negatives = new BinaryOpNode(new UnaryOpNode('-', n(2)), '*', new UnaryOpNode('-', n(3)));
+        expect(canonicalKey(negatives)).toBe(canonicalKey(new BinaryOpNode(n(2), '*', n(3))));
+        expect(canonicalKey(new BinaryOpNode(n(1), '-', new UnaryOpNode('-', n(2))))).toBe(canonicalKey(new BinaryOpNode(n(1), '+', n(2))));
+    });
+
+    it('求解器默认按规范形式去重, raw 模式保留变体', () => {
+        const config = {
+            strategy: 'tree' as const,
+            ...operators('enableAddition'),
+        };
+        const count = (dedupe: 'canonical' | 'raw') =>
+            [...solving([1, 2, 3], 6, {...config, dedupe})].filter(r => r.type === 'solution').length;
+
+        expect(count('canonical')).toBe(1);
+        expect(count('raw')).toBe(2);
+    });
 });
 
 describe('解析器测试', () => {
@@ -74,6 +242,44 @@ describe('解析器测试', () => {
         expect(result.target).toBe(100);
     });
 
+    it('花括号应该选择数字顺序模式', () => {
+        expect(parseInput('2 3 4 = 24').ordering).toBe('strict');
+
+        const permutation = parseInput('{2 3 4} = 24');
+        expect(permutation.numbers).toEqual([2, 3, 4]);
+        expect(permutation.ordering).toBe('permutation');
+
+        const partial = parseInput('1 {2 3} 4 = 10');
+        expect(partial.ordering).toBe('partial');
+        expect(partial.precedence).toEqual([[0, 1], [0, 2], [1, 3], [2, 3]]);
+
+        expect(() => parseInput('{1 2 = 3')).toThrow('Unclosed brace');
+    });
+
+    it('右侧可以是负数、小数、分数或数字序列', () => {
+        expect(parseInput('1 2 3 = -4').target).toBe(-4);
+        expect(parseInput('1 2 3 = 2.5').exactTarget?.toString()).toBe('5/2');
+        expect(parseInput('1 2 3 = -1/3').exactTarget?.equals(new Rational(-1n, 3n))).toBe(true);
+        expect(parseInput('1 2 3 = 1 / 3').exactTarget?.toString()).toBe('1/3');
+        expect(parseInput('1 2 3 = 1 / 3').right).toBeUndefined();
+
+        const equation = parseInput('1 2 3 = 4 5 6');
+        expect(equation.right).toEqual([4, 5, 6]);
+        expect(equation.target).toBeNaN();
+        expect(() => parseInput('1 2 = {3 4}')).toThrow('Braces are only allowed on the left side');
+    });
+
+    it('应该解析两侧都是表达式的等式', () => {
+        const parser = new Parser();
+        const expr = parser.parse('1 + 2 = 4 - 1');
+        expect(expr.right).toBeDefined();
+        expect(expr.target).toBe(3);
+        expect(expr.isValid('exact')).toBe(true);
+        expect(parser.parse('0.5 * 3 = 1.5').isValid('exact')).toBe(true);
+        expect(parser.parse('1 + 2 = 4 / 2').isValid()).toBe(false);
+        expect(renderToText(expr)).toBe('1 + 2 = 4 - 1');
+    });
+
     it('应该正确解析表达式', () => {
         const parser = new Parser();
         const expr = parser.parse('1 + 2 * 3 = 7');
@@ -89,6 +295,36 @@ describe('解析器测试', () => {
         expect(expr.isValid()).toBe(true);
         expect(expr.evaluate()).toBe(28);
     });
+
+    it('解析错误应该带有错误码与位置', () => {
+        const parser = new Parser();
+        const capture = (action: () => unknown) => {
+            try {
+                action();
+            } catch (error) {
+                return error as ParseError;
+            }
+            throw new Error('Expected a parse error');
+        };
+
+        const character = capture(() => parser.parse('1 + a = 3'));
+        expect(character).toBeInstanceOf(ParseError);
+        expect(character).toMatchObject({code: 'unexpected-character', start: 4, end: 5});
+
+        const paren = capture(() => parser.parse('(1 + 2 = 3'));
+        expect(paren).toMatchObject({code: 'unclosed-paren', start: 7, end: 8});
+        expect(paren.expected).toContain(')');
+
+        expect(capture(() => parser.parse('1 + = 3'))).toMatchObject({code: 'unexpected-token', start: 4, expected: ['number', '(', '-', '√']});
+        expect(capture(() => parser.parse('1 + 2 = 3 )'))).toMatchObject({code: 'trailing-tokens', start: 10, end: 11});
+
+        expect(capture(() => parseInput('1 2 3 = 4 = 5'))).toMatchObject({code: 'multiple-equals', start: 10, end: 11});
+        expect(capture(() => parseInput('1 {2 3 = 5'))).toMatchObject({code: 'unclosed-brace', start: 2, end: 7});
+        expect(capture(() => parseInput('1 2 = {3 4}'))).toMatchObject({code: 'braces-on-right', start: 6});
+        expect(capture(() => parseInput('1 x 3 = 6'))).toMatchObject({code: 'invalid-number', start: 2, end: 3});
+        expect(capture(() => parseInput('1 2 3 =  abc'))).toMatchObject({code: 'invalid-target', start: 9, end: 12});
+        expect(capture(() => parseInput('1 2 3 = 1 / 3 4'))).toMatchObject({code: 'invalid-target', start: 8, end: 15});
+    });
 });
 
 describe('求解器测试', () => {
@@ -127,6 +363,72 @@ describe('求解器测试', () => {
         expect(result.expression.isValid()).toBe(true);
     });
 
+    it('tree 策略可找到非左折叠形状的解', async () => {
+        // (1 + 2) * (3 + 4) 无法由左折叠链构造
+        const config = operators('enableAddition', 'enableMultiplication');
+        const chain = await solve([1, 2, 3, 4], 21, {...config, strategy: 'chain'});
+        expect(chain.found).toBe(false);
+
+        const tree = await solve([1, 2, 3, 4], 21, {...config, strategy: 'tree'});
+        expect(tree.found).toBe(true);
+        expect(tree.expression.isValid()).toBe(true);
+
+        const interval = await solve([1, 2, 3, 4], 21, {...config, strategy: 'interval'});
+        expect(interval.found).toBe(true);
+        expect(interval.expression.isValid()).toBe(true);
+    });
+
+    it('interval 策略可处理九位数字', async () => {
+        const result = await solve([1, 2, 3, 4, 5, 6, 7, 8, 9], 100, {
+            strategy: 'interval',
+            maxAttempts: 0,
+            ...operators('enableConcatenation', 'enableAddition', 'enableSubtraction', 'enableMultiplication', 'enableDivision', 'enableNegation'),
+        });
+
+        expect(result.found).toBe(true);
+        expect(result.expression.isValid()).toBe(true);
+    }, 30000);
+
+    it('重复数字不应产生重复排列', () => {
+        expect([...orderings([1, 1, 2], 'permutation')]).toEqual([[1, 1, 2], [1, 2, 1], [2, 1, 1]]);
+        // numbers[1] 必须在 numbers[2] 之前
+        expect([...orderings([1, 1, 2], 'partial', [[1, 2]])]).toEqual([[1, 1, 2], [1, 2, 1]]);
+    });
+
+    it('permutation 模式可调换数字顺序', async () => {
+        const onlyConcat = operators('enableConcatenation');
+        const strict = await solve([1, 2, 3], 321, onlyConcat);
+        expect(strict.found).toBe(false);
+
+        const permutation = await solve([1, 2, 3], 321, {...onlyConcat, ordering: 'permutation'});
+        expect(permutation.found).toBe(true);
+
+        const game = await solve([1, 5, 5, 5], 24, {ordering: 'permutation', strategy: 'tree', timeout: 2000});
+        expect(game.found).toBe(true);
+        expect(game.expression.isValid()).toBe(true);
+    });
+
+    it('应该支持解的数量上限与穷举模式', async () => {
+        const config = {strategy: 'tree' as const, timeout: 5000};
+
+        const limited = await solve([1, 2, 3, 4], 10, {...config, maxSolutions: 1});
+        expect(limited.solutions).toHaveLength(1);
+        expect(limited.complete).toBe(false);
+        expect(limited.stopReason).toBe('solution-limit');
+
+        const exhaustive = await solve([1, 2, 3], 6, {...config, maxSolutions: 1, exhaustive: true});
+        expect(exhaustive.solutions.length).toBeGreaterThan(1);
+        expect(exhaustive.complete).toBe(true);
+        expect(exhaustive.stopReason).toBeUndefined();
+
+        const cut = await solve([1, 2, 3, 4], 10, {...config, exhaustive: true, maxAttempts: 5});
+        expect(cut.complete).toBe(false);
+        expect(cut.stopReason).toBe('attempt-limit');
+
+        const timedOut = await solve([1, 2, 3, 4], 10, {...config, exhaustive: true, timeout: 0});
+        expect(timedOut.stopReason).toBe('timeout');
+    });
+
     it('应该在无解时返回正确状态', async () => {
         const result = await solve([1], 100, {
             maxAttempts: 10,
@@ -136,6 +438,173 @@ describe('求解器测试', () => {
         expect(result.found).toBe(false);
     });
 
+    it('应该记录最接近目标的近似解', async () => {
+        const config = {
+            ...operators('enableAddition', 'enableSubtraction', 'enableMultiplication', 'enableDivision'),
+            nearest: 2
+        };
+
+        for (const strategy of ['tree', 'interval'] as const) {
+            const reports: SolverReport[] = [];
+            const result = await solve([2, 3], 7, {...config, strategy}, report => reports.push(report));
+            expect(result.status).toBe('proved-unsolvable');
+            expect(result.approximations.map(item => item.value)).toEqual([6, 5]);
+            expect(result.approximations[0].distance).toBe(1);
+            expect(result.approximations[0].expression.target).toBe(6);
+            expect(reports[reports.length - 1].approximations).toHaveLength(2);
+        }
+
+        const disabled = await solve([2, 3], 7, {...config, nearest: 0, strategy: 'tree'});
+        expect(disabled.approximations).toEqual([]);
+    });
+
+    it('异步求解应该让出事件循环并响应 AbortSignal', async () => {
+        const solver = new Solver({strategy: 'tree', exhaustive: true, maxAttempts: 0, timeout: 30000});
+        const controller = new AbortController();
+        const started = Date.now();
+        setTimeout(() => controller.abort(), 20);
+
+        const result = await solver.solveAsync([1, 2, 3, 4, 5, 6, 7, 8, 9], 100, {signal: controller.signal});
+        expect(result.status).toBe('cancelled');
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('代价与区间策略在剪枝和查询期间也应该响应 AbortSignal', async () => {
+        for (const strategy of ['cost', 'interval'] as const) {
+            const solver = new Solver({strategy, exhaustive: true, maxAttempts: 0, timeout: 30000});
+            const controller = new AbortController();
+            const started = Date.now();
+            setTimeout(() => controller.abort(), 50);
+
+            const result = await solver.solveAsync([1, 2, 3, 4, 5, 6, 7, 8, 9], 100, {signal: controller.signal});
+            expect(result.status).toBe('cancelled');
+            expect(Date.now() - started).toBeLessThan(1000);
+        }
+    });
+
+    it('计数模式应该按结果或运算集合统计且不构造解', async () => {
+        const config = {
+            strategy: 'tree' as const, maxSolutions: 0,
+            ...operators('enableConcatenation', 'enableAddition', 'enableSubtraction', 'enableMultiplication', 'enableDivision')
+        };
+        const byTarget = await solve([1, 2, 3], 6, {...config, counting: 'target'});
+        expect(byTarget.solutions).toHaveLength(0);
+        expect(byTarget.status).toBe('solved');
+        expect(byTarget.counts).toMatchObject({'6': 2, '123': 1, '0': 1});
+
+        // canonical 去重后 (1+2)+3 与 1+(2+3) 只计一次
+        expect((await solve([1, 2, 3], 6, {...config, counting: 'operators'})).counts).toEqual({'+': 1, '*': 1});
+        expect((await solve([1, 2, 3], 6, {...config, counting: 'operators', dedupe: 'raw'})).counts).toEqual({'+': 2, '*': 2});
+        expect(operatorSet(new UnaryOpNode('-', new BinaryOpNode(new ConcatNode([1, 2]), '*', new NumberNode(3))))).toBe('* neg concat');
+        expect(() => new Solver({strategy: 'interval', counting: 'target'})).toThrow('not supported');
+
+        // 分片计数只在 raw 去重时与完整搜索一致
+        expect(() => new Solver({...config, counting: 'target', partition: {index: 0, count: 2}})).toThrow('cannot be partitioned');
+        const raw = {...config, counting: 'target' as const, dedupe: 'raw' as const};
+        const parts = await Promise.all(partitionConfigs(raw, 2).map(part => solve([1, 2, 3], 6, part)));
+        expect(mergeResults(parts, 'raw').counts).toEqual((await solve([1, 2, 3], 6, raw)).counts);
+    });
+
+    it('应该求解两侧都插入运算的等式与分数目标', async () => {
+        const equation = await solve([1, 2, 3], [4, 5, 6], {strategy: 'tree', maxDepth: 4, maxSolutions: 3});
+        expect(equation.solutions).toHaveLength(3);
+        expect(equation.solutions.every(solution => solution.right !== undefined && solution.isValid())).toBe(true);
+
+        const fraction = await solve([1, 2, 3], Rational.from('-1/3'), {strategy: 'tree', arithmetic: 'exact', maxSolutions: 2});
+        expect(fraction.status).toBe('solved');
+        expect(fraction.solutions.every(solution => solution.isValid('exact'))).toBe(true);
+    });
+
+    it('批量求解应该共用一次遍历并给出每个目标的状态', async () => {
+        for (const strategy of ['tree', 'interval'] as const) {
+            const config = {strategy, maxDepth: 4, maxSolutions: 1, enableFactorial: false, enableConcatenation: false};
+            const firstHits = new Set<number>();
+            const batch = await solveBatch([1, 2, 3, 4], {from: 20, to: 30}, config, report => {
+                if (report.type === 'solution') firstHits.add(report.currentExpression!.target);
+            });
+
+            expect([...batch.results.keys()]).toEqual([20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30]);
+            for (const [target, {solutions, status}] of batch.results) {
+                const single = await solve([1, 2, 3, 4], target, config);
+                expect(status).toBe(single.status);
+                expect(solutions.every(solution => solution.isValid() && solution.target === target)).toBe(true);
+                expect(firstHits.has(target)).toBe(solutions.length > 0);
+            }
+        }
+        expect([...(await solveBatch([1, 2], [3, 3, -1])).results.keys()]).toEqual([-1, 3]);
+
+        // 4/3 - 5/6 的浮点值略小于 0.5, 与目标落在相邻的整数上
+        const half = await solveBatch([4, 3, 5, 6], [0.5], {
+            strategy: 'tree', maxDepth: 3, maxSolutions: 0, ...operators('enableSubtraction', 'enableDivision')
+        });
+        expect(half.results.get(0.5)?.solutions.map(solution => solution.toString()))
+            .toContain(new ExpressionNode(new BinaryOpNode(new BinaryOpNode(new NumberNode(4), '/', new NumberNode(3)), '-', new BinaryOpNode(new NumberNode(5), '/', new NumberNode(6))), 0.5).toString());
+    });
+
+    it('应该能从 JSON 快照恢复搜索, 结果与不中断时一致', () => {
+        const drain = (generator: Generator<SolverReport, SolutionResult>) => {
+            let step = generator.next();
+            while (!step.done) step = generator.next();
+            return step.value;
+        };
+        const keys = (result: SolutionResult) => result.solutions.map(solution => canonicalKey(solution.left)).sort();
+        for (const strategy of ['tree', 'chain', 'cost'] as const) {
+            const config = {strategy, maxDepth: 4, maxSolutions: 0, enableFactorial: false, enableSquareRoot: false};
+            const whole = drain(new Solver(config).solve([1, 2, 3, 4], 24));
+
+            const interrupted = new Solver({...config, maxAttempts: Math.floor(whole.attempts / 2)});
+            expect(interrupted.snapshot()).toBeUndefined();
+            expect(drain(interrupted.solve([1, 2, 3, 4], 24)).stopReason).toBe('attempt-limit');
+            expect(interrupted.snapshot()?.solutions.some(solution => solution instanceof ExpressionNode)).toBe(false);
+            const snapshot = JSON.parse(JSON.stringify(interrupted.snapshot()));
+            expect(snapshot.attempts).toBeLessThanOrEqual(whole.attempts / 2);
+
+            const resumed = drain(new Solver(config).resume(snapshot));
+            expect(resumed.attempts).toBe(whole.attempts);
+            expect(resumed.status).toBe(whole.status);
+            expect(keys(resumed)).toEqual(keys(whole));
+            expect(() => new Solver({...config, maxDepth: 5}).resume(snapshot).next()).toThrow('Snapshot does not match solver config');
+        }
+    });
+
+    it('异步迭代应该逐个产出报告并在中止后干净结束', async () => {
+        const solutions: SolverReport[] = [];
+        for await (const report of solveStream([1, 2, 3, 4], 10, {maxSolutions: 3})) {
+            if (report.type === 'solution') solutions.push(report);
+        }
+        expect(solutions).toHaveLength(3);
+
+        const controller = new AbortController();
+        const stream = solveStream([1, 2, 3, 4, 5, 6, 7, 8, 9], 100000, {strategy: 'tree', maxAttempts: 0, timeout: 30000}, {signal: controller.signal});
+        const started = Date.now();
+        setTimeout(() => controller.abort(), 20);
+        let step = await stream.next();
+        let last: SolverReport | undefined;
+        while (!step.done) {
+            last = step.value;
+            step = await stream.next();
+        }
+        expect(last?.type).toBe('complete');
+        expect(step.value.status).toBe('cancelled');
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('应该区分已证明无解与放弃搜索', async () => {
+        const config = {strategy: 'tree' as const, enableConcatenation: false, enableFactorial: false};
+
+        const proved = await solve([1, 2], 100, config);
+        expect(proved.status).toBe('proved-unsolvable');
+        expect(proved.coverage.binaryOperators).toEqual(['+', '-', '*', '/', '%', '^']);
+        expect(proved.coverage.unaryOperators).toEqual(['√', '-']);
+        expect(proved.coverage.concatenation).toBe(false);
+
+        const gaveUp = await solve([1, 2, 3, 4, 5], 1000, {...config, maxAttempts: 10});
+        expect(gaveUp.status).toBe('attempt-limit');
+
+        const solved = await solve([1, 2], 3, config);
+        expect(solved.status).toBe('solved');
+    });
+
     it('应该使用generator模式报告进度', () => {
         const reports: SolverReport[] = [];
         const generator = solving([1, 2, 3], 6, {
@@ -185,6 +654,250 @@ describe('求解器测试', () => {
         // 第二个测试应该找不到解（所有运算都被禁用）
         expect(result2.found).toBe(false);
     });
+
+    it('应该按运算开关估计搜索空间', () => {
+        const onlyAddition = {strategy: 'tree' as const, ...operators('enableConcatenation', 'enableAddition')};
+        // 1 2 3 只有加法: 两种加括号方式; 允许连接时另有 123, 1+23, 12+3
+        expect(new Solver({...onlyAddition, enableConcatenation: false}).estimateSearchSpace([1, 2, 3])).toBe(2);
+        expect(new Solver(onlyAddition).estimateSearchSpace([1, 2, 3])).toBe(5);
+        expect(new Solver(onlyAddition).estimateSearchSpace([])).toBe(0);
+        // 全排列按多重集合计数
+        expect(new Solver({...onlyAddition, ordering: 'permutation'}).estimateSearchSpace([1, 1, 2])).toBe(15);
+    });
+
+    it('进度应该是已探索的比例, 完整搜索后搜索空间等于尝试次数', () => {
+        for (const strategy of ['tree', 'chain', 'interval'] as const) {
+            const solver = new Solver({strategy, enableFactorial: false, maxSolutions: 0, reportInterval: 0, maxDepth: 4});
+            const reports = [...solver.solve([1, 2, 3, 4], 1000)];
+            const complete = reports[reports.length - 1];
+
+            expect(reports.every(report => report.searchSpace > 0 && report.progress >= 0 && report.progress <= 1)).toBe(true);
+            expect(reports.slice(0, -1).every(report => report.progress < 1)).toBe(true);
+            expect(complete).toMatchObject({type: 'complete', progress: 1});
+            expect(complete.searchSpace).toBe(complete.attempts);
+        }
+    });
+});
+
+describe('答案校验测试', () => {
+    const puzzle = '1 2 3 4 5 6 7 8 9 = 100';
+
+    it('应该接受正确的答案并还原数字连接', () => {
+        const verdict = verifyAnswer(puzzle, '1+2+3-4+5+6+78+9');
+        expect(verdict.verdict).toBe('correct');
+        if (verdict.verdict !== 'correct') return;
+        expect(operatorSet(verdict.expression.left)).toBe('+ - concat');
+        expect(renderToText(verdict.expression)).toBe('1 + 2 + 3 - 4 + 5 + 6 + 78 + 9 = 100');
+    });
+
+    it('应该给出具体的错误原因', () => {
+        expect(verifyAnswer(puzzle, '1+2+3-4+5+6+79+8')).toMatchObject({verdict: 'wrong-digits', digits: [1, 2, 3, 4, 5, 6, 79, 8]});
+        expect(verifyAnswer(puzzle, '1+2+3-4+5+6+78')).toMatchObject({verdict: 'wrong-digits'});
+        expect(verifyAnswer(puzzle, '1+2+3-4+5+6+78+9', {enableConcatenation: false})).toMatchObject({verdict: 'disallowed-operator', operators: ['concat']});
+        expect(verifyAnswer(puzzle, '-1+2*3+4*5+6+7*8+9', {enableNegation: false})).toMatchObject({verdict: 'disallowed-operator', operators: ['neg']});
+        expect(verifyAnswer(puzzle, '1+2+3+4+5+6+7+8+9')).toMatchObject({verdict: 'wrong-value', value: 45});
+        expect(verifyAnswer('1 2 = 3', '1/(2-2)')).toMatchObject({verdict: 'wrong-digits'});
+        expect(verifyAnswer('1 0 = 1', '1/0')).toMatchObject({verdict: 'wrong-value', value: undefined});
+        expect(() => verifyAnswer(puzzle, '1+2+')).toThrow(ParseError);
+    });
+
+    it('应该按谜题的顺序模式匹配数字', () => {
+        expect(verifyAnswer('{2 3 4} = 24', '4*3*2').verdict).toBe('correct');
+        expect(verifyAnswer('{2 3 4} = 24', '4*(3+3)').verdict).toBe('wrong-digits');
+        expect(verifyAnswer('1 {2 3} = 33', '1+32').verdict).toBe('correct');
+        expect(verifyAnswer('1 {2 3} = 22', '21+1').verdict).toBe('wrong-digits');
+        expect(verifyAnswer('1 2 3 = 1/3', '1/(2+1)', {arithmetic: 'exact'}).verdict).toBe('wrong-digits');
+        expect(verifyAnswer('1 2 3 = -1/5', '1/(2-3)/5', {arithmetic: 'exact'}).verdict).toBe('wrong-digits');
+        expect(verifyAnswer('1 2 3 = 1/5', '1/(2+3)', {arithmetic: 'exact'}).verdict).toBe('correct');
+    });
+});
+
+describe('谜题生成测试', () => {
+    it('同一种子应该生成同一道有解的谜题', async () => {
+        const puzzle = await generatePuzzle('2026-10-19', {maxSolutions: 3});
+        const again = await generatePuzzle('2026-10-19', {maxSolutions: 3});
+        expect(again.text).toBe(puzzle.text);
+        expect(again.rules).toEqual(puzzle.rules);
+        expect(puzzle.numbers).toHaveLength(4);
+        expect(puzzle.solutions.length).toBeGreaterThanOrEqual(1);
+        expect(puzzle.solutions.length).toBeLessThanOrEqual(3);
+
+        // 求解器给出的解应该能通过答案校验
+        const answer = renderToText(puzzle.solutions[0]).split(' = ')[0];
+        expect(verifyAnswer(puzzle.text, answer, puzzle.rules).verdict).toBe('correct');
+    });
+
+    it('解的个数应该与 tree 策略的完整搜索一致且不受配置中的策略影响', async () => {
+        const puzzle = await generatePuzzle('2026-10-19', {maxSolutions: 3});
+        const full = await solve(puzzle.numbers, puzzle.target, {...puzzle.rules, strategy: 'tree', ordering: 'strict', exhaustive: true, timeout: Infinity});
+        expect(puzzle.solutions).toHaveLength(full.solutions.length);
+
+        const chain = await generatePuzzle('2026-10-19', {maxSolutions: 3, config: {strategy: 'chain'}});
+        expect(chain.text).toBe(puzzle.text);
+        expect(chain.solutions).toHaveLength(puzzle.solutions.length);
+    });
+
+    it('应该校验生成参数', async () => {
+        expect(dailySeed(new Date(Date.UTC(2026, 9, 19, 23, 30)))).toBe('2026-10-19');
+        await expect(generatePuzzle(1, {minTarget: 10, maxTarget: 1})).rejects.toThrow('Invalid target range');
+        await expect(generatePuzzle(1, {length: 2, minTarget: 1000, maxTarget: 1000, maxCandidates: 3})).rejects.toThrow('No puzzle found');
+    });
+});
+
+describe('分片求解测试', () => {
+    const keys = (result: SolutionResult) => result.solutions.map(solution => canonicalKey(solution.left)).sort();
+
+    for (const strategy of ['chain', 'tree'] as const) {
+        it(`${strategy} 策略的各分片合起来应该与完整搜索一致`, async () => {
+            const config = {strategy, maxSolutions: 0, enableFactorial: false, maxDepth: 4};
+            const full = await solve([1, 2, 3, 4], 10, config);
+            const parts = await Promise.all(partitionConfigs(config, 3).map(part => solve([1, 2, 3, 4], 10, part)));
+            expect(parts.every(part => part.solutions.length < full.solutions.length)).toBe(true);
+
+            const merged = mergeResults(parts);
+            expect(merged.status).toBe('solved');
+            expect(keys(merged)).toEqual(keys(full));
+        });
+    }
+
+    it('interval 策略的各分片合起来应该与完整搜索的结论一致', async () => {
+        const config = {strategy: 'interval' as const, enableFactorial: false, maxDepth: 4};
+        for (const target of [10, 24, 29, 100]) {
+            const full = await solve([1, 2, 3, 4], target, config);
+            const parts = await Promise.all(partitionConfigs(config, 3).map(part => solve([1, 2, 3, 4], target, part)));
+            expect(mergeResults(parts).status).toBe(full.status);
+        }
+    });
+
+    it('应该拒绝非法的分片', () => {
+        expect(() => new Solver({partition: {index: 3, count: 3}})).toThrow('Invalid partition');
+        expect(() => new Solver({strategy: 'cost', partition: {index: 0, count: 2}})).toThrow('not supported by the cost strategy');
+        expect(() => new Solver({strategy: 'cost', partition: {index: 0, count: 1}})).not.toThrow();
+    });
+
+    it('合并报告时应该去重并在全部完成后结束', () => {
+        const merger = new ReportMerger(2);
+        const solution = new ExpressionNode(new BinaryOpNode(new NumberNode(1), '+', new NumberNode(2)), 3);
+        const swapped = new ExpressionNode(new BinaryOpNode(new NumberNode(2), '+', new NumberNode(1)), 3);
+        const report = (type: SolverReport['type'], attempts: number, currentExpression?: ExpressionNode): SolverReport =>
+            ({type, attempts, currentExpression, eta: 0, progress: 0.5, duration: 10, searchSpace: attempts * 2});
+
+        expect(merger.push(0, report('solution', 5, JSON.parse(JSON.stringify(solution))))).toMatchObject({type: 'solution'});
+        expect(new ReportMerger(1).push(0, report('solution', 5, JSON.parse(JSON.stringify(solution))))?.currentExpression).toBeInstanceOf(ExpressionNode);
+        // 经过结构化克隆的等价解同样被去重
+        expect(merger.push(1, report('solution', 7, JSON.parse(JSON.stringify(swapped))))).toBeUndefined();
+        expect(merger.push(0, report('complete', 10))).toMatchObject({type: 'progress', attempts: 17});
+        expect(merger.push(1, report('complete', 20))).toMatchObject({type: 'complete', attempts: 30, progress: 1, searchSpace: 60});
+    });
+
+    it('只有全部分片都证明无解时才算无解', async () => {
+        const config = {strategy: 'tree' as const, enableConcatenation: false};
+        const parts = await Promise.all(partitionConfigs(config, 2).map(part => solve([1, 2], 100, part)));
+        expect(mergeResults(parts).status).toBe('proved-unsolvable');
+        expect(mergeResults([parts[0], {...parts[1], status: 'timeout', stopReason: 'timeout', complete: false}]).status).toBe('timeout');
+    });
+});
+
+describe('配置校验测试', () => {
+    it('应该接受已知字段并拒绝未知字段', () => {
+        const config = {enablePower: false, maxDepth: 4, timeout: 1000};
+        expect(validateSolverConfig(config)).toBe(config);
+        expect(() => validateSolverConfig({enablePower: false, enablePow: true})).toThrow('Unknown solver option: enablePow');
+    });
+});
+
+describe('代价模型测试', () => {
+    const node = new BinaryOpNode(new ConcatNode([1, 2]), '*', new UnaryOpNode('!', new NumberNode(3)));
+
+    it('应该计算节点数与叶子数', () => {
+        expect(nodeCount(node)).toBe(4);
+        expect(leafCount(node)).toBe(6);
+    });
+
+    it('应该按模型加权', () => {
+        expect(weightedCost()(node)).toBe(2 + 1 + 3 + 1);
+        expect(weightedCost({factorial: 10, binary: {'*': 5}})(node)).toBe(2 + 5 + 10 + 1);
+        expect(weightedCost({concatDigit: 0.5})(new ExpressionNode(new ConcatNode([1, 2]), 12))).toBe(1);
+    });
+
+    it('cost 策略应该按代价升序产出解', async () => {
+        const cost = weightedCost();
+        const config = {enableFactorial: false, maxSolutions: 0, maxDepth: 4};
+        const result = await solve([1, 2, 3, 4], 10, {...config, strategy: 'cost', cost});
+        const costs = result.solutions.map(solution => cost(solution));
+        expect(result.status).toBe('solved');
+        expect(result.complete).toBe(true);
+        expect(costs).toEqual([...costs].sort((a, b) => a - b));
+
+        // 与穷举得到的最低代价一致
+        const tree = await solve([1, 2, 3, 4], 10, {...config, strategy: 'tree'});
+        expect(tree.solutions.length).toBe(result.solutions.length);
+        expect(cost(result.expression)).toBe(Math.min(...tree.solutions.map(solution => cost(solution))));
+    });
+});
+
+describe('可达整数表测试', () => {
+    const basic = operators('enableConcatenation', 'enableAddition', 'enableSubtraction', 'enableMultiplication', 'enableDivision', 'enableNegation');
+
+    it('应该列出所有可达整数及其最简表达式', () => {
+        const table = buildReachableTable([1, 2], {...basic, enableNegation: false});
+        expect(table.targets()).toEqual([-1, 2, 3, 12]);
+        expect(table.get(12)?.expression).toBeInstanceOf(ConcatNode);
+        expect(table.solution(3)?.isValid('exact')).toBe(true);
+        expect(table.has(0.5)).toBe(false);
+    });
+
+    it('应该按代价选择表达式', () => {
+        const table = buildReachableTable([1, 1, 4, 5, 1, 4], {...basic, min: 0, max: 200});
+        for (const entry of table.entries()) {
+            expect(new ExpressionNode(entry.expression, entry.value).isValid('exact')).toBe(true);
+            expect(entry.cost).toBe(leafCount(entry.expression));
+        }
+        expect(table.targets().slice(0, 101)).toEqual(Array.from({length: 101}, (_, i) => i));
+        expect(table.has(109)).toBe(false);
+
+        // 不计连接的代价下, 连接优先
+        const preferConcat = buildReachableTable([1, 1], {...basic, cost: node => node instanceof ConcatNode ? 0 : leafCount(node)});
+        expect(preferConcat.get(11)?.cost).toBe(0);
+    });
+
+    it('默认运算下 6 个数字的表应该在有限时间内建成', () => {
+        const started = Date.now();
+        const table = buildReachableTable([1, 1, 4, 5, 1, 4], {min: 0, max: 1000});
+        expect(Date.now() - started).toBeLessThan(30000);
+        expect(table.targets().slice(0, 126)).toEqual(Array.from({length: 126}, (_, i) => i));
+        for (const entry of table.entries()) {
+            expect(new ExpressionNode(entry.expression, entry.value).isValid('exact')).toBe(true);
+        }
+    }, 60000);
+
+    it('应该可以导出为 JSON 并还原', () => {
+        const table = buildReachableTable([1, 2, 3], basic);
+        const restored = ReachableTable.fromJSON(JSON.parse(JSON.stringify(table)));
+        expect(restored.targets()).toEqual(table.targets());
+        expect(restored.get(6)?.expression.toString()).toBe(table.get(6)?.expression.toString());
+        expect(restored.get(6)?.expression.evaluate()).toBe(6);
+    });
+
+    it('reviveNode 应该还原各类节点', () => {
+        const node = new ExpressionNode(new BinaryOpNode(new ConcatNode([1, 2]), '+', new UnaryOpNode('-', new NumberNode(3))), 9);
+        const revived = reviveNode(JSON.parse(JSON.stringify(node)));
+        expect(revived).toBeInstanceOf(ExpressionNode);
+        expect(revived.toString()).toBe(node.toString());
+
+        const data = toNodeData(new ParenNode(node.left));
+        expect(data).toEqual({
+            type: 'paren',
+            expression: {
+                type: 'binary_op',
+                left: {type: 'concat', numbers: [1, 2]},
+                operator: '+',
+                right: {type: 'unary_op', operator: '-', operand: {type: 'number', value: 3}}
+            }
+        });
+        expect(data).not.toBeInstanceOf(ParenNode);
+        expect(reviveNode(data).toString()).toBe(new ParenNode(node.left).toString());
+    });
 });
 
 describe('渲染器测试', () => {
@@ -226,6 +939,40 @@ describe('渲染器测试', () => {
             expect(mathematica).toContain('4');
         }
     });
+
+    it('解析后的表达式应该原样渲染', () => {
+        const parser = new Parser();
+        for (const input of ['(1 + 2) * 3 = 9', '2 ^ 3 ^ 2 = 512', '(2 ^ 3)! = 40320', '-3! = -6', '1 - (2 - 3) = 2', '((4)) = 4']) {
+            const expr = parser.parse(input);
+            expect(renderToText(expr)).toBe(input);
+            expect(parser.parse(renderToText(expr)).toString()).toBe(expr.toString());
+        }
+    });
+
+    it('应该只在需要时补充括号', () => {
+        const sum = new BinaryOpNode(new NumberNode(1), '+', new NumberNode(2));
+        const expr = new ExpressionNode(new BinaryOpNode(sum, '*', new NumberNode(3)), 9);
+        expect(renderToText(expr)).toBe('(1 + 2) * 3 = 9');
+        expect(renderToLatex(expr)).toBe('\\left(1 + 2\\right) \\cdot 3 = 9');
+        expect(renderToMathematica(expr)).toBe('(1 + 2) * 3 == 9');
+
+        const power = new ExpressionNode(new BinaryOpNode(new NumberNode(-2), '^', new NumberNode(2)), 4);
+        expect(renderToText(power)).toBe('-2 ^ 2 = 4');
+        expect(renderToLatex(power)).toBe('\\left(-2\\right)^{2} = 4');
+    });
+
+    it('结构化克隆后的普通对象应该与 AST 节点渲染一致', () => {
+        const sum = new BinaryOpNode(new NumberNode(1), '+', new NumberNode(2));
+        const negated = new UnaryOpNode('-', new BinaryOpNode(sum, '*', new NumberNode(3)));
+        for (const expr of [new ExpressionNode(new BinaryOpNode(sum, '*', new NumberNode(3)), 9), new ExpressionNode(negated, -9)]) {
+            const cloned = JSON.parse(JSON.stringify(expr));
+            expect(renderToText(cloned)).toBe(renderToText(expr));
+            expect(renderToLatex(cloned)).toBe(renderToLatex(expr));
+            expect(renderToMathematica(cloned)).toBe(renderToMathematica(expr));
+        }
+        expect(renderToLatex(JSON.parse(JSON.stringify(new ExpressionNode(new BinaryOpNode(sum, '*', new NumberNode(3)), 9)))))
+            .toBe('\\left(1 + 2\\right) \\cdot 3 = 9');
+    });
 });
 
 describe('错误处理测试', () => {